@@ -1,7 +1,7 @@
 // API client for Cashplan.io backend
 
 import axios from 'axios';
-import type { Plan, Event, ChartDataPoint, User } from '../types';
+import type { Plan, Event, ChartDataPoint, CashflowMonth, FxRate, Goal, GoalEvaluation, GoalSeekResult, GoalSeekSettings, MonteCarloResult, MonteCarloSettings, ProjectionInsights, Scenario, ScenarioChartData, User } from '../types';
 
 const apiClient = axios.create({
   baseURL: '/',
@@ -14,8 +14,13 @@ export const getPlans = async (): Promise<Plan[]> => {
   return response.data.plans;
 };
 
-export const createPlan = async (name: string, startDate: string): Promise<Plan> => {
-  const response = await apiClient.post<{ plan: Plan }>('/api/plans', { name, startDate });
+export const createPlan = async (name: string, startDate: string, baseCurrency?: string): Promise<Plan> => {
+  const response = await apiClient.post<{ plan: Plan }>('/api/plans', { name, startDate, baseCurrency });
+  return response.data.plan;
+};
+
+export const updatePlan = async (planId: number, plan: Partial<Plan>): Promise<Plan> => {
+  const response = await apiClient.put<{ plan: Plan }>(`/api/plans/${planId}`, plan);
   return response.data.plan;
 };
 
@@ -39,14 +44,133 @@ export const deleteEvent = async (planId: number, eventId: number): Promise<void
   await apiClient.delete(`/api/plans/${planId}/events/${eventId}`);
 };
 
+// Scenarios
+export const getScenarios = async (planId: number): Promise<Scenario[]> => {
+  const response = await apiClient.get<{ scenarios: Scenario[] }>(`/api/plans/${planId}/scenarios`);
+  return response.data.scenarios;
+};
+
+export const createScenario = async (planId: number, scenario: Partial<Scenario>): Promise<Scenario> => {
+  const response = await apiClient.post<{ scenario: Scenario }>(`/api/plans/${planId}/scenarios`, scenario);
+  return response.data.scenario;
+};
+
+export const updateScenario = async (planId: number, scenarioId: number, scenario: Partial<Scenario>): Promise<Scenario> => {
+  const response = await apiClient.put<{ scenario: Scenario }>(`/api/plans/${planId}/scenarios/${scenarioId}`, scenario);
+  return response.data.scenario;
+};
+
+export const deleteScenario = async (planId: number, scenarioId: number): Promise<void> => {
+  await apiClient.delete(`/api/plans/${planId}/scenarios/${scenarioId}`);
+};
+
+export const compareScenarios = async (planId: number, scenarioIds?: number[], rangeYears: number = 10): Promise<ScenarioChartData[]> => {
+  const response = await apiClient.get<{ scenarios: ScenarioChartData[] }>(`/api/plans/${planId}/scenarios/compare`, {
+    params: scenarioIds ? { rangeYears, scenarioIds: scenarioIds.join(',') } : { rangeYears },
+  });
+  return response.data.scenarios;
+};
+
+// Goals
+export const getGoals = async (planId: number): Promise<Goal[]> => {
+  const response = await apiClient.get<{ goals: Goal[] }>(`/api/plans/${planId}/goals`);
+  return response.data.goals;
+};
+
+export const createGoal = async (planId: number, goal: Partial<Goal>): Promise<Goal> => {
+  const response = await apiClient.post<{ goal: Goal }>(`/api/plans/${planId}/goals`, goal);
+  return response.data.goal;
+};
+
+export const updateGoal = async (planId: number, goalId: number, goal: Partial<Goal>): Promise<Goal> => {
+  const response = await apiClient.put<{ goal: Goal }>(`/api/plans/${planId}/goals/${goalId}`, goal);
+  return response.data.goal;
+};
+
+export const deleteGoal = async (planId: number, goalId: number): Promise<void> => {
+  await apiClient.delete(`/api/plans/${planId}/goals/${goalId}`);
+};
+
+export const evaluateGoals = async (planId: number, rangeYears: number = 10): Promise<GoalEvaluation[]> => {
+  const response = await apiClient.get<{ goals: GoalEvaluation[] }>(`/api/plans/${planId}/goals/evaluation`, {
+    params: { rangeYears },
+  });
+  return response.data.goals;
+};
+
 // Chart data
-export const getChartData = async (planId: number, rangeYears: number = 10): Promise<ChartDataPoint[]> => {
+export const getChartData = async (planId: number, rangeYears: number = 10, breakdown: boolean = false, mode: 'nominal' | 'real' = 'nominal'): Promise<ChartDataPoint[]> => {
   const response = await apiClient.get<{ chartData: ChartDataPoint[] }>(`/api/plans/${planId}/chart-data`, {
-    params: { rangeYears },
+    params: {
+      rangeYears,
+      ...(breakdown && { breakdown }),
+      ...(mode === 'real' && { mode }),
+    },
   });
   return response.data.chartData;
 };
 
+export const getMonteCarlo = async (planId: number, rangeYears: number = 10, settings: MonteCarloSettings = {}): Promise<MonteCarloResult> => {
+  const { paths, seed, investmentReturn, inflation, interestRate } = settings;
+  const response = await apiClient.get<{ monteCarlo: MonteCarloResult }>(`/api/plans/${planId}/chart-data`, {
+    params: {
+      rangeYears,
+      simulation: 'monte_carlo',
+      paths,
+      seed,
+      investmentReturnMean: investmentReturn?.mean,
+      investmentReturnSd: investmentReturn?.standardDeviation,
+      inflationMean: inflation?.mean,
+      inflationSd: inflation?.standardDeviation,
+      interestRateMean: interestRate?.mean,
+      interestRateSd: interestRate?.standardDeviation,
+    },
+  });
+  return response.data.monteCarlo;
+};
+
+// Cash flow
+export const getCashflow = async (planId: number, rangeYears: number = 10): Promise<CashflowMonth[]> => {
+  const response = await apiClient.get<{ cashflow: CashflowMonth[] }>(`/api/plans/${planId}/cashflow`, {
+    params: { rangeYears },
+  });
+  return response.data.cashflow;
+};
+
+// Insights
+export const getInsights = async (planId: number, rangeYears: number = 10): Promise<ProjectionInsights> => {
+  const response = await apiClient.get<{ insights: ProjectionInsights }>(`/api/plans/${planId}/insights`, {
+    params: { rangeYears },
+  });
+  return response.data.insights;
+};
+
+// Goal seek
+export const solveEventField = async (planId: number, settings: GoalSeekSettings, rangeYears: number = 10): Promise<GoalSeekResult> => {
+  const response = await apiClient.post<{ solution: GoalSeekResult }>(`/api/plans/${planId}/solve`, { ...settings, rangeYears });
+  return response.data.solution;
+};
+
+// FX rates
+export const getFxRates = async (): Promise<FxRate[]> => {
+  const response = await apiClient.get<{ fxRates: FxRate[] }>('/api/fx-rates');
+  return response.data.fxRates;
+};
+
+export const createFxRate = async (fxRate: Partial<FxRate>): Promise<FxRate> => {
+  const response = await apiClient.post<{ fxRate: FxRate }>('/api/fx-rates', fxRate);
+  return response.data.fxRate;
+};
+
+export const updateFxRate = async (fxRateId: number, fxRate: Partial<FxRate>): Promise<FxRate> => {
+  const response = await apiClient.put<{ fxRate: FxRate }>(`/api/fx-rates/${fxRateId}`, fxRate);
+  return response.data.fxRate;
+};
+
+export const deleteFxRate = async (fxRateId: number): Promise<void> => {
+  await apiClient.delete(`/api/fx-rates/${fxRateId}`);
+};
+
 // User
 export const getCurrentUser = async (): Promise<User | null> => {
   try {
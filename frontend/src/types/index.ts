@@ -7,56 +7,118 @@ export interface User {
   isAuthenticated: boolean;
 }
 
+export interface OpeningDebt {
+  eventId: number; // Mortgage or car loan event the balance belongs to
+  balance: number; // Outstanding balance on the plan start date
+}
+
+export interface CashSettings {
+  savingsRate?: number; // Annual rate earned on positive liquidity
+  overdraftLimit?: number; // Arranged overdraft, as a positive amount
+  overdraftRate?: number; // Annual rate charged within the arranged limit
+  unarrangedOverdraftRate?: number; // Annual rate charged beyond the limit
+}
+
 export interface Plan {
   id?: number;
   userId: number;
   name: string;
   startDate: string; // ISO date string (YYYY-MM-DD)
+  openingCash: number; // Cash held on the start date
+  openingAssets: number; // Value of existing asset holdings on the start date
+  openingDebts: OpeningDebt[]; // Outstanding balances of loans already running on the start date
+  cashSettings: CashSettings;
+  baseCurrency: string; // ISO 4217 code the projection is reported in
+  inflationRate: number; // Annual inflation assumption as decimal, used for values in today's money
   createdAt?: string;
   updatedAt?: string;
 }
 
-export type EventType = 'income' | 'expense' | 'mortgage' | 'mortgage_repayment' | 'pcp' | 'car_loan';
+export type EventType = 'income' | 'expense' | 'mortgage' | 'mortgage_repayment' | 'pcp' | 'car_loan' | 'investment' | 'pension' | 'property_sale' | 'loan' | 'credit_card' | 'student_loan';
 
 export interface BaseEvent {
   id?: number;
   planId: number;
   type: EventType;
+  currency?: string; // ISO 4217 code of the event's amounts, the plan's base currency when omitted
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Annual indexation of a recurring amount
+export interface Escalation {
+  annualRate: number; // Fixed increase per year as decimal (e.g., 0.04 for 4%)
+  applyOn: 'anniversary' | 'january'; // Month the increase takes effect each year
+}
+
+// RRULE-style schedule of a recurring amount, counted from the event's startDate
+export interface Recurrence {
+  frequency: 'weekly' | 'monthly' | 'yearly';
+  interval?: number; // Every N weeks, months or years, defaults to 1 (e.g., 4 weekly for four-weekly pay)
+  byMonth?: number[]; // Month numbers (1-12) occurrences fall in
+  byDay?: string[]; // Weekdays (MO-SU), with an optional position for monthly and yearly rules (e.g., '2TU', '-1FR')
+  count?: number; // Number of occurrences before the schedule ends
+  until?: string; // ISO date string, last date an occurrence can fall on
+}
+
+// Salary entered before tax, converted to take-home pay by the calculator
+export interface GrossSalary {
+  jurisdiction: string; // Tax rule set code (e.g., 'uk')
+  salarySacrificeRate?: number; // Pension salary sacrifice as decimal of gross pay
+}
+
 export interface IncomeEvent extends BaseEvent {
   type: 'income';
   data: {
-    amount: number;
+    amount: number; // Take-home pay, or gross monthly pay when grossSalary is set (per occurrence with a recurrence)
     isRecurrent: boolean;
     months: number[]; // Array of month numbers (1-12), empty for one-off
+    recurrence?: Recurrence; // Optional schedule for recurrent amounts, takes precedence over months
     startDate: string; // ISO date string
     endDate?: string; // ISO date string, optional for recurrent
+    escalation?: Escalation; // Optional annual indexation for recurrent amounts
+    grossSalary?: GrossSalary; // Optional gross-to-net conversion
   };
 }
 
 export interface ExpenseEvent extends BaseEvent {
   type: 'expense';
   data: {
-    amount: number;
+    amount: number; // Per occurrence with a recurrence
     isRecurrent: boolean;
     months: number[]; // Array of month numbers (1-12), empty for one-off
+    recurrence?: Recurrence; // Optional schedule for recurrent amounts, takes precedence over months
     startDate: string; // ISO date string
     endDate?: string; // ISO date string, optional for recurrent
+    escalation?: Escalation; // Optional annual indexation for recurrent amounts
   };
 }
 
+// A mortgage product, e.g. a 2-year fix
+export interface MortgageRatePeriod {
+  startDate: string; // ISO date string, first month the rate applies
+  endDate?: string; // ISO date string, first month the rate no longer applies (open-ended when omitted)
+  rate: number; // Annual rate as decimal
+  productFee?: number; // Arrangement fee paid in the month the product starts
+}
+
 export interface MortgageEvent extends BaseEvent {
   type: 'mortgage';
   data: {
     startDate: string; // ISO date string
     purchasePrice: number;
     loanedAmount: number;
-    interestRate: number; // Annual rate as decimal (e.g., 0.05 for 5%)
+    interestRate: number; // Annual rate as decimal (e.g., 0.05 for 5%), the reversion rate outside rateSchedule
     repaymentPercentage: number; // Percentage as decimal (e.g., 0.5 for 50%)
     years: number;
+    rateSchedule?: MortgageRatePeriod[]; // Optional fixed/tracker periods, payment is re-amortised at each change
+    earlyRepaymentCharge?: {
+      allowanceRate: number; // Share of the balance at the start of each mortgage year that can be overpaid free of charge (e.g., 0.1)
+      chargeRate: number; // Charge on overpayments above the allowance as decimal (e.g., 0.03)
+      endDate?: string; // ISO date string, charges no longer apply from this month (e.g., end of the fix)
+    };
+    propertyValue?: number; // Market value on the plan start date for mortgages taken out before it
+    appreciationRate?: number; // Annual house price growth as decimal (e.g., 0.03 for 3%)
   };
 }
 
@@ -64,8 +126,44 @@ export interface MortgageRepaymentEvent extends BaseEvent {
   type: 'mortgage_repayment';
   data: {
     mortgageEventId: number; // Reference to parent mortgage event
-    date: string; // ISO date string
+    date: string; // ISO date string, first (or only) overpayment
     amount: number;
+    frequencyMonths?: number; // Repeat every N months from date, omit for a single lump sum
+    endDate?: string; // ISO date string, last month of a recurring overpayment
+    mode?: 'reduce_term' | 'reduce_payment'; // Keep the payment and finish early (default), or lower the payment
+  };
+}
+
+export interface PropertySaleEvent extends BaseEvent {
+  type: 'property_sale';
+  data: {
+    mortgageEventId: number; // Mortgage of the property being sold, redeemed from the proceeds
+    date: string; // ISO date string
+    salePrice: number;
+    sellingCosts: number; // Agent and legal fees
+  };
+}
+
+export interface VehicleDepreciation {
+  model: 'stepped' | 'declining_balance' | 'straight_line' | 'custom';
+  annualRate?: number; // declining_balance
+  targetValue?: number; // straight_line
+  targetYears?: number; // straight_line
+  yearlyRates?: number[]; // custom, the last rate repeats
+  floorValue?: number; // Defaults to 1500
+}
+
+export interface PCPEndOfTerm {
+  option: 'pay_balloon' | 'hand_back' | 'part_exchange';
+  excessMileageCharge?: number;
+  nextAgreement?: {
+    purchasePrice: number;
+    years: 2 | 3 | 5;
+    residualValue: number;
+    interestRate: number; // Annual rate as decimal
+    additionalDeposit?: number;
+    depreciation?: VehicleDepreciation;
+    endOfTerm?: PCPEndOfTerm;
   };
 }
 
@@ -78,6 +176,8 @@ export interface PCPEvent extends BaseEvent {
     years: 2 | 3 | 5;
     residualValue: number;
     interestRate: number; // Annual rate as decimal
+    depreciation?: VehicleDepreciation;
+    endOfTerm?: PCPEndOfTerm; // Defaults to handing the car back
   };
 }
 
@@ -89,15 +189,322 @@ export interface CarLoanEvent extends BaseEvent {
     deposit: number;
     years: number; // 3-10 years
     interestRate: number; // Annual rate as decimal
+    depreciation?: VehicleDepreciation;
+  };
+}
+
+export interface InvestmentEvent extends BaseEvent {
+  type: 'investment';
+  data: {
+    startDate: string; // ISO date string, when the account is opened
+    openingBalance: number; // Balance on startDate (or on the plan start date for accounts already open)
+    contributions: {
+      startDate: string; // ISO date string, when this monthly amount takes effect
+      amount: number; // Monthly contribution until the next entry
+    }[];
+    annualGrowthRate: number; // Expected annual growth as decimal (e.g., 0.05 for 5%)
+    withdrawals?: {
+      date: string; // ISO date string
+      amount: number;
+    }[];
+    endDate?: string; // ISO date string, when the account is closed and the balance withdrawn
+  };
+}
+
+export interface PensionEvent extends BaseEvent {
+  type: 'pension';
+  data: {
+    incomeEventId?: number; // Income event contributions are a percentage of (gross pay when grossSalary is set)
+    openingBalance: number; // Pot value on the plan start date
+    employeeContributionRate: number; // Decimal of pay, taken from take-home pay
+    employerContributionRate: number; // Decimal of pay, paid by the employer
+    taxReliefRate: number; // Relief added on top of employee contributions (e.g., 0.25 for basic rate relief at source)
+    annualGrowthRate: number; // Expected annual growth as decimal
+    accessDate?: string; // ISO date string, when the pot can be accessed
+    dateOfBirth?: string; // ISO date string, used with accessAge when accessDate is not set
+    accessAge?: number; // Age the pot can be accessed (e.g., 57)
+    drawdown?: {
+      startDate?: string; // ISO date string, defaults to the access date
+      monthlyAmount: number; // Taken from the pot each month until it runs out, before tax
+      jurisdiction?: string; // Tax rules applied to the drawdown, 'uk' when omitted
+    };
+  };
+}
+
+export interface LoanEvent extends BaseEvent {
+  type: 'loan';
+  data: {
+    startDate: string; // ISO date string
+    principal: number;
+    interestRate: number; // APR as decimal
+    termMonths: number;
+    paymentHoliday?: {
+      startDate: string; // ISO date string
+      months: number;
+    };
+  };
+}
+
+export interface CreditCardEvent extends BaseEvent {
+  type: 'credit_card';
+  data: {
+    startDate: string; // ISO date string
+    openingBalance: number;
+    interestRate: number; // APR as decimal
+    minimumPayment?: {
+      rate: number; // Decimal of the balance, paid on top of the month's interest
+      floor: number;
+    };
+    fixedPayment?: number;
+    promotionalEndDate?: string; // ISO date string, 0% interest until this date
+  };
+}
+
+export interface StudentLoanEvent extends BaseEvent {
+  type: 'student_loan';
+  data: {
+    incomeEventId?: number;
+    plan: 'plan_1' | 'plan_2' | 'plan_4' | 'plan_5' | 'postgraduate';
+    balance: number;
+    rpiRate: number; // Annual RPI as decimal
+    interestRate?: number; // Annual rate as decimal
+    firstRepaymentDate: string; // ISO date string
+    writeOffDate?: string; // ISO date string
+  };
+}
+
+export type Event = IncomeEvent | ExpenseEvent | MortgageEvent | MortgageRepaymentEvent | PCPEvent | CarLoanEvent | InvestmentEvent | PensionEvent | PropertySaleEvent | LoanEvent | CreditCardEvent | StudentLoanEvent;
+
+export interface ScenarioAddedEvent {
+  type: EventType;
+  data: Event['data'];
+  currency?: string; // The plan's base currency when omitted
+}
+
+export interface ScenarioModifiedEvent {
+  eventId: number;
+  data: Event['data'];
+  currency?: string; // Replacement currency, the event keeps its own when omitted
+}
+
+export interface ScenarioOverrides {
+  added: ScenarioAddedEvent[]; // Given ids -1, -2, ... in order
+  removed: number[];
+  modified: ScenarioModifiedEvent[];
+}
+
+export interface Scenario {
+  id?: number;
+  planId: number;
+  name: string;
+  overrides: ScenarioOverrides;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type GoalType = 'savings_target' | 'emergency_fund' | 'debt_free';
+
+export interface BaseGoal {
+  id?: number;
+  planId: number;
+  name: string;
+  type: GoalType;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SavingsTargetGoal extends BaseGoal {
+  type: 'savings_target';
+  data: {
+    amount: number;
+    targetDate: string; // ISO date string (YYYY-MM-DD)
+    measure?: 'liquidity' | 'net_worth';
   };
 }
 
-export type Event = IncomeEvent | ExpenseEvent | MortgageEvent | MortgageRepaymentEvent | PCPEvent | CarLoanEvent;
+export interface EmergencyFundGoal extends BaseGoal {
+  type: 'emergency_fund';
+  data: {
+    months: number;
+    targetDate?: string; // ISO date string (YYYY-MM-DD)
+  };
+}
+
+export interface DebtFreeGoal extends BaseGoal {
+  type: 'debt_free';
+  data: {
+    eventId?: number;
+    targetDate?: string; // ISO date string (YYYY-MM-DD)
+    dateOfBirth?: string; // ISO date string (YYYY-MM-DD)
+    age?: number;
+  };
+}
+
+export type Goal = SavingsTargetGoal | EmergencyFundGoal | DebtFreeGoal;
+
+export interface GoalEvaluation {
+  goalId: number;
+  name: string;
+  type: GoalType;
+  met: boolean;
+  checkedMonth: string; // ISO date string (YYYY-MM-DD)
+  reachedMonth: string | null;
+  shortfall: number;
+  surplus: number;
+}
+
+export interface ScenarioChartData {
+  scenarioId: number | null; // null for the base plan
+  name: string;
+  chartData: ChartDataPoint[];
+}
 
 export interface ChartDataPoint {
   month: string; // ISO date string (YYYY-MM-DD)
+  liquidity: number;
+  assets: number; // Net of the debts secured on them
+  grossAssets: number;
+  liabilities: LiabilityBalance[];
+  totalLiabilities: number;
+  netWorth: number;
+  cashInterest: number; // Negative when overdraft interest is charged
+  breakdown?: EventContribution[];
+  cashflow?: CashflowTotals;
+  real?: RealValues; // Only with mode=real
+}
+
+// Values of a month in today's money, deflated to the plan start date
+export interface RealValues {
   liquidity: number;
   assets: number;
+  grossAssets: number;
+  liabilities: LiabilityBalance[];
+  totalLiabilities: number;
+  netWorth: number;
+  breakdown?: EventContribution[];
+}
+
+export interface LiabilityBalance {
+  eventId: number;
+  balance: number;
+}
+
+export interface EventContribution {
+  eventId: number;
+  liquidityDelta: number;
+  assetsDelta: number;
+}
+
+export interface CashflowTotals {
+  income: number;
+  expenses: number;
+  interestPaid: number;
+  principalRepaid: number;
+  deposits: number;
+  borrowing: number;
+  contributions: number;
+  withdrawals: number;
+  saleProceeds: number;
+  depreciation: number;
+  investmentGrowth: number;
+  cashInterest: number;
+}
+
+export interface CashflowMonth extends CashflowTotals {
+  month: string; // ISO date string (YYYY-MM-DD)
+}
+
+export interface RateDistribution {
+  mean: number;
+  standardDeviation: number;
+}
+
+export interface MonteCarloSettings {
+  paths?: number; // Server default when omitted, capped by the number of events and the range
+  seed?: number;
+  investmentReturn?: RateDistribution;
+  inflation?: RateDistribution;
+  interestRate?: RateDistribution;
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloBand {
+  month: string; // ISO date string (YYYY-MM-DD)
+  liquidity: PercentileBand;
+  netWorth: PercentileBand;
+  real?: Pick<MonteCarloBand, 'liquidity' | 'netWorth'>; // Only with mode=real
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  bands: MonteCarloBand[];
+  probabilityOfNegativeLiquidity: number;
+}
+
+export interface MonthValue {
+  month: string; // ISO date string (YYYY-MM-DD)
+  amount: number;
+}
+
+export interface LoanPayoff {
+  eventId: number;
+  type: EventType;
+  payoffMonth: string | null;
+}
+
+export interface ProjectionInsights {
+  negativeLiquidityMonths: string[];
+  lowestLiquidity: MonthValue;
+  peakDebt: MonthValue;
+  runwayMonths: number | null;
+  averageMonthlyOutgoings: number;
+  loanPayoffs: LoanPayoff[];
+}
+
+// Rate taking effect from a date, used for projections
+export interface FxRatePoint {
+  date: string; // ISO date string (YYYY-MM-DD)
+  rate: number;
+}
+
+// User-maintained exchange rate between two currencies
+export interface FxRate {
+  id?: number;
+  userId: number;
+  fromCurrency: string; // ISO 4217 code (e.g., 'EUR')
+  toCurrency: string; // ISO 4217 code (e.g., 'GBP')
+  rate: number; // Units of toCurrency per unit of fromCurrency
+  ratePath: FxRatePoint[]; // Dated rates replacing the rate from each date on
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Condition a goal-seek solution must meet
+export type GoalSeekConstraint =
+  | { type: 'never_below'; measure: 'liquidity' | 'net_worth'; amount: number }
+  | { type: 'reach_by'; measure: 'liquidity' | 'net_worth'; amount: number; targetDate: string };
+
+// Request for the highest or lowest value of one event field meeting a constraint
+export interface GoalSeekSettings {
+  eventId: number;
+  field: string; // Event data field, dotted for nested fields (e.g., 'escalation.annualRate')
+  min: number;
+  max: number;
+  objective?: 'maximize' | 'minimize'; // Default maximize
+  constraint: GoalSeekConstraint;
+  tolerance?: number; // Default 0.01
+}
+
+export interface GoalSeekResult {
+  value: number | null; // null when no value within the bounds meets the constraint
+  feasible: boolean;
+  iterations: number;
 }
 
 // API Response types
@@ -125,6 +532,49 @@ export interface EventResponse {
 
 export interface ChartDataResponse {
   chartData: ChartDataPoint[];
+  monteCarlo?: MonteCarloResult;
+  currency: string; // Base currency the amounts are reported in
+}
+
+export interface ScenariosResponse {
+  scenarios: Scenario[];
+}
+
+export interface ScenarioResponse {
+  scenario: Scenario;
+}
+
+export interface ScenarioComparisonResponse {
+  scenarios: ScenarioChartData[];
+  currency: string;
+}
+
+export interface GoalsResponse {
+  goals: Goal[];
+}
+
+export interface GoalResponse {
+  goal: Goal;
+}
+
+export interface GoalEvaluationResponse {
+  goals: GoalEvaluation[];
+}
+
+export interface CashflowResponse {
+  cashflow: CashflowMonth[];
+}
+
+export interface InsightsResponse {
+  insights: ProjectionInsights;
+}
+
+export interface FxRatesResponse {
+  fxRates: FxRate[];
+}
+
+export interface FxRateResponse {
+  fxRate: FxRate;
 }
 
 export interface UserResponse {
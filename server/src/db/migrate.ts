@@ -1,8 +1,9 @@
 import Database from 'better-sqlite3';
+import { EVENT_TYPES } from '../models/events';
 
 /**
- * Migration script to add start_date column to existing plans table
- * This handles the case where the database already exists without the start_date column
+ * Migration script to add columns introduced after the initial schema
+ * This handles the case where the database already exists without these columns
  */
 interface ColumnInfo {
   cid: number;
@@ -13,29 +14,98 @@ interface ColumnInfo {
   pk: number;
 }
 
+/**
+ * Add a column to a table unless it already exists
+ */
+const addColumnIfMissing = (db: Database.Database, table: string, column: string, definition: string) => {
+  const tableInfo = db.pragma(`table_info(${table})`) as ColumnInfo[];
+  const hasColumn = tableInfo.some((col) => col.name === column);
+  
+  if (!hasColumn) {
+    console.log(`Adding ${column} column to ${table} table...`);
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    console.log(`✓ Migration completed: ${column} column added`);
+  } else {
+    console.log(`✓ ${table} table already has ${column} column`);
+  }
+};
+
+/**
+ * Rebuild the events table when its type CHECK constraint predates newer event types
+ * SQLite cannot alter a CHECK constraint in place, so rows are copied into a fresh table
+ */
+const migrateEventTypes = (db: Database.Database) => {
+  const table = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'events'").get() as { sql: string } | undefined;
+  const missingTypes = EVENT_TYPES.filter((type) => !table?.sql.includes(`'${type}'`));
+  
+  if (!table || missingTypes.length === 0) {
+    console.log('✓ Events table already supports all event types');
+    return;
+  }
+  
+  console.log(`Rebuilding events table to support: ${missingTypes.join(', ')}...`);
+  
+  const typeList = EVENT_TYPES.map((type) => `'${type}'`).join(', ');
+  
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE events_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          plan_id INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN (${typeList})),
+          data TEXT NOT NULL,
+          currency TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (plan_id) REFERENCES plans(id) ON DELETE CASCADE
+        );
+        INSERT INTO events_new (id, plan_id, type, data, currency, created_at, updated_at)
+          SELECT id, plan_id, type, data, currency, created_at, updated_at FROM events;
+        DROP TABLE events;
+        ALTER TABLE events_new RENAME TO events;
+        CREATE INDEX IF NOT EXISTS idx_events_plan_id ON events(plan_id);
+        CREATE TRIGGER IF NOT EXISTS update_events_timestamp 
+        AFTER UPDATE ON events
+        BEGIN
+          UPDATE events SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        END;
+      `);
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+  
+  console.log('✓ Migration completed: events table rebuilt');
+};
+
 export const migrateDatabase = (db: Database.Database) => {
   console.log('Running database migrations...');
   
   try {
-    // Check if start_date column exists in plans table
-    const tableInfo = db.pragma('table_info(plans)') as ColumnInfo[];
-    const hasStartDate = tableInfo.some((col) => col.name === 'start_date');
+    // Add start_date column with a default value (current date)
+    addColumnIfMissing(db, 'plans', 'start_date', "TEXT NOT NULL DEFAULT (date('now'))");
     
-    if (!hasStartDate) {
-      console.log('Adding start_date column to plans table...');
-      
-      // Add start_date column with a default value (current date)
-      db.exec(`
-        ALTER TABLE plans ADD COLUMN start_date TEXT NOT NULL DEFAULT (date('now'));
-      `);
-      
-      console.log('✓ Migration completed: start_date column added');
-    } else {
-      console.log('✓ Plans table already has start_date column');
-    }
+    // Opening balances used to seed the projection
+    addColumnIfMissing(db, 'plans', 'opening_cash', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'plans', 'opening_assets', 'REAL NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'plans', 'opening_debts', "TEXT NOT NULL DEFAULT '[]'");
+    
+    // Savings and overdraft interest on the cash balance
+    addColumnIfMissing(db, 'plans', 'cash_settings', "TEXT NOT NULL DEFAULT '{}'");
+    
+    // Currencies of plans and events, added before the events table can be rebuilt so the rebuild keeps them
+    addColumnIfMissing(db, 'plans', 'base_currency', "TEXT NOT NULL DEFAULT 'GBP'");
+    addColumnIfMissing(db, 'events', 'currency', 'TEXT');
+    
+    // Inflation assumption for values in today's money
+    addColumnIfMissing(db, 'plans', 'inflation_rate', 'REAL NOT NULL DEFAULT 0.02');
+    
+    // Event types added after the events table was created
+    migrateEventTypes(db);
   } catch (error) {
     console.error('Error during migration:', error);
     throw error;
   }
 };
-
@@ -14,6 +14,12 @@ CREATE TABLE IF NOT EXISTS plans (
   user_id INTEGER NOT NULL,
   name TEXT NOT NULL,
   start_date TEXT NOT NULL, -- ISO date string (YYYY-MM-DD) for calculation start
+  opening_cash REAL NOT NULL DEFAULT 0, -- Cash held on the start date
+  opening_assets REAL NOT NULL DEFAULT 0, -- Existing asset holdings on the start date
+  opening_debts TEXT NOT NULL DEFAULT '[]', -- JSON array of { eventId, balance } for loans already running
+  cash_settings TEXT NOT NULL DEFAULT '{}', -- JSON of savings and overdraft interest rates
+  base_currency TEXT NOT NULL DEFAULT 'GBP', -- ISO 4217 code the projection is reported in
+  inflation_rate REAL NOT NULL DEFAULT 0.02, -- Annual inflation assumption used to report values in today's money
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -22,17 +28,57 @@ CREATE TABLE IF NOT EXISTS plans (
 CREATE TABLE IF NOT EXISTS events (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   plan_id INTEGER NOT NULL,
-  type TEXT NOT NULL CHECK(type IN ('income', 'expense', 'mortgage', 'mortgage_repayment', 'pcp', 'car_loan')),
+  type TEXT NOT NULL CHECK(type IN ('income', 'expense', 'mortgage', 'mortgage_repayment', 'pcp', 'car_loan', 'investment', 'pension', 'property_sale', 'loan', 'credit_card', 'student_loan')),
   data TEXT NOT NULL, -- JSON data specific to event type
+  currency TEXT, -- ISO 4217 code of the event's amounts, NULL for the plan's base currency
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (plan_id) REFERENCES plans(id) ON DELETE CASCADE
 );
 
+-- Scenarios table (alternatives to a plan, stored as overrides of its events)
+CREATE TABLE IF NOT EXISTS scenarios (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  overrides TEXT NOT NULL DEFAULT '{"added":[],"removed":[],"modified":[]}', -- JSON of added, removed and modified events
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (plan_id) REFERENCES plans(id) ON DELETE CASCADE
+);
+
+-- Goals table (targets checked against a plan's projection, stores goal settings as JSON)
+CREATE TABLE IF NOT EXISTS goals (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK(type IN ('savings_target', 'emergency_fund', 'debt_free')),
+  data TEXT NOT NULL, -- JSON data specific to goal type
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (plan_id) REFERENCES plans(id) ON DELETE CASCADE
+);
+
+-- FX rates table (maintained by each user, used to convert events into a plan's base currency)
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate REAL NOT NULL, -- Units of to_currency per unit of from_currency
+  rate_path TEXT NOT NULL DEFAULT '[]', -- JSON array of { date, rate } taking effect from each date
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, from_currency, to_currency)
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_plans_user_id ON plans(user_id);
 CREATE INDEX IF NOT EXISTS idx_events_plan_id ON events(plan_id);
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_scenarios_plan_id ON scenarios(plan_id);
+CREATE INDEX IF NOT EXISTS idx_goals_plan_id ON goals(plan_id);
+CREATE INDEX IF NOT EXISTS idx_fx_rates_user_id ON fx_rates(user_id);
 
 -- Trigger to update updated_at timestamp on users
 CREATE TRIGGER IF NOT EXISTS update_users_timestamp 
@@ -55,4 +101,23 @@ BEGIN
   UPDATE events SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
 END;
 
+-- Trigger to update updated_at timestamp on scenarios
+CREATE TRIGGER IF NOT EXISTS update_scenarios_timestamp 
+AFTER UPDATE ON scenarios
+BEGIN
+  UPDATE scenarios SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
 
+-- Trigger to update updated_at timestamp on goals
+CREATE TRIGGER IF NOT EXISTS update_goals_timestamp 
+AFTER UPDATE ON goals
+BEGIN
+  UPDATE goals SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
+
+-- Trigger to update updated_at timestamp on fx_rates
+CREATE TRIGGER IF NOT EXISTS update_fx_rates_timestamp 
+AFTER UPDATE ON fx_rates
+BEGIN
+  UPDATE fx_rates SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+END;
@@ -18,6 +18,9 @@ import passport from 'passport';
 import authRoutes, { initializePassport } from './routes/auth';
 import plansRoutes from './routes/plans';
 import eventsRoutes from './routes/events';
+import scenariosRoutes from './routes/scenarios';
+import goalsRoutes from './routes/goals';
+import fxRatesRoutes from './routes/fx-rates';
 
 
 
@@ -56,6 +59,9 @@ initializePassport();
 app.use('/auth', authRoutes);
 app.use('/api/plans', plansRoutes);
 app.use('/api/plans', eventsRoutes);
+app.use('/api/plans', scenariosRoutes);
+app.use('/api/plans', goalsRoutes);
+app.use('/api/fx-rates', fxRatesRoutes);
 
 // Health check endpoint
 app.get('/api/health', (_req: Request, res: Response) => {
@@ -19,6 +19,7 @@ describe('Event Models', () => {
           months: [],
           startDate: '2025-01-01',
         }),
+        currency: null,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -52,6 +53,7 @@ describe('Event Models', () => {
           months: [],
           startDate: '2025-02-01',
         }),
+        currency: null,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -75,6 +77,7 @@ describe('Event Models', () => {
           repaymentPercentage: 1.0,
           years: 25,
         }),
+        currency: null,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -84,6 +87,26 @@ describe('Event Models', () => {
       expect(event.type).to.equal('mortgage');
       expect(event.id).to.equal(3);
     });
+
+    it('should only set currency when the event has one', () => {
+      const row: EventRow = {
+        id: 4,
+        plan_id: 10,
+        type: 'expense',
+        data: JSON.stringify({
+          amount: 800,
+          isRecurrent: true,
+          months: [],
+          startDate: '2025-01-01',
+        }),
+        currency: 'EUR',
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      };
+
+      expect(rowToEvent(row).currency).to.equal('EUR');
+      expect(rowToEvent({ ...row, currency: null })).to.not.have.property('currency');
+    });
   });
 
   describe('eventToRow', () => {
@@ -105,6 +128,7 @@ describe('Event Models', () => {
       expect(row).to.have.property('plan_id', 10);
       expect(row).to.have.property('type', 'income');
       expect(row).to.have.property('data');
+      expect(row).to.have.property('currency', null);
       
       const parsedData = JSON.parse(row.data);
       expect(parsedData).to.deep.equal({
@@ -150,6 +174,7 @@ describe('Event Models', () => {
           months: [1, 6, 12],
           startDate: '2025-01-01',
         }),
+        currency: null,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -4,43 +4,90 @@ export interface BaseEvent {
   id?: number;
   planId: number;
   type: EventType;
+  currency?: string; // ISO 4217 code of the event's amounts, the plan's base currency when omitted
   createdAt?: string;
   updatedAt?: string;
 }
 
-export type EventType = 'income' | 'expense' | 'mortgage' | 'mortgage_repayment' | 'pcp' | 'car_loan';
+export type EventType = 'income' | 'expense' | 'mortgage' | 'mortgage_repayment' | 'pcp' | 'car_loan' | 'investment' | 'pension' | 'property_sale' | 'loan' | 'credit_card' | 'student_loan';
+
+// All supported event types, in the order they are listed in the events.type CHECK constraint
+export const EVENT_TYPES: EventType[] = ['income', 'expense', 'mortgage', 'mortgage_repayment', 'pcp', 'car_loan', 'investment', 'pension', 'property_sale', 'loan', 'credit_card', 'student_loan'];
+
+// Annual indexation of a recurring amount
+export interface Escalation {
+  annualRate: number; // Fixed increase per year as decimal (e.g., 0.04 for 4%)
+  applyOn: 'anniversary' | 'january'; // Month the increase takes effect each year
+}
+
+// RRULE-style schedule of a recurring amount, counted from the event's startDate
+export interface Recurrence {
+  frequency: 'weekly' | 'monthly' | 'yearly';
+  interval?: number; // Every N weeks, months or years, defaults to 1 (e.g., 4 weekly for four-weekly pay)
+  byMonth?: number[]; // Month numbers (1-12) occurrences fall in
+  byDay?: string[]; // Weekdays (MO-SU), with an optional position for monthly and yearly rules (e.g., '2TU', '-1FR')
+  count?: number; // Number of occurrences before the schedule ends
+  until?: string; // ISO date string, last date an occurrence can fall on
+}
+
+// Salary entered before tax, converted to take-home pay by the calculator
+export interface GrossSalary {
+  jurisdiction: string; // Tax rule set code (e.g., 'uk')
+  salarySacrificeRate?: number; // Pension salary sacrifice as decimal of gross pay
+}
 
 export interface IncomeEvent extends BaseEvent {
   type: 'income';
   data: {
-    amount: number;
+    amount: number; // Take-home pay, or gross monthly pay when grossSalary is set (per occurrence with a recurrence)
     isRecurrent: boolean;
     months: number[]; // Array of month numbers (1-12), empty for one-off
+    recurrence?: Recurrence; // Optional schedule for recurrent amounts, takes precedence over months
     startDate: string; // ISO date string
     endDate?: string; // ISO date string, optional for recurrent
+    escalation?: Escalation; // Optional annual indexation for recurrent amounts
+    grossSalary?: GrossSalary; // Optional gross-to-net conversion
   };
 }
 
 export interface ExpenseEvent extends BaseEvent {
   type: 'expense';
   data: {
-    amount: number;
+    amount: number; // Per occurrence with a recurrence
     isRecurrent: boolean;
     months: number[]; // Array of month numbers (1-12), empty for one-off
+    recurrence?: Recurrence; // Optional schedule for recurrent amounts, takes precedence over months
     startDate: string; // ISO date string
     endDate?: string; // ISO date string, optional for recurrent
+    escalation?: Escalation; // Optional annual indexation for recurrent amounts
   };
 }
 
+// A mortgage product, e.g. a 2-year fix
+export interface MortgageRatePeriod {
+  startDate: string; // ISO date string, first month the rate applies
+  endDate?: string; // ISO date string, first month the rate no longer applies (open-ended when omitted)
+  rate: number; // Annual rate as decimal
+  productFee?: number; // Arrangement fee paid in the month the product starts
+}
+
 export interface MortgageEvent extends BaseEvent {
   type: 'mortgage';
   data: {
     startDate: string; // ISO date string
     purchasePrice: number;
     loanedAmount: number;
-    interestRate: number; // Annual rate as decimal (e.g., 0.05 for 5%)
+    interestRate: number; // Annual rate as decimal (e.g., 0.05 for 5%), the reversion rate outside rateSchedule
     repaymentPercentage: number; // Percentage as decimal (e.g., 0.5 for 50%)
     years: number;
+    rateSchedule?: MortgageRatePeriod[]; // Optional fixed/tracker periods, payment is re-amortised at each change
+    earlyRepaymentCharge?: {
+      allowanceRate: number; // Share of the balance at the start of each mortgage year that can be overpaid free of charge (e.g., 0.1)
+      chargeRate: number; // Charge on overpayments above the allowance as decimal (e.g., 0.03)
+      endDate?: string; // ISO date string, charges no longer apply from this month (e.g., end of the fix)
+    };
+    propertyValue?: number; // Market value on the plan start date for mortgages taken out before it
+    appreciationRate?: number; // Annual house price growth as decimal (e.g., 0.03 for 3%)
   };
 }
 
@@ -48,8 +95,46 @@ export interface MortgageRepaymentEvent extends BaseEvent {
   type: 'mortgage_repayment';
   data: {
     mortgageEventId: number; // Reference to parent mortgage event
-    date: string; // ISO date string
+    date: string; // ISO date string, first (or only) overpayment
     amount: number;
+    frequencyMonths?: number; // Repeat every N months from date, omit for a single lump sum
+    endDate?: string; // ISO date string, last month of a recurring overpayment
+    mode?: 'reduce_term' | 'reduce_payment'; // Keep the payment and finish early (default), or lower the payment
+  };
+}
+
+export interface PropertySaleEvent extends BaseEvent {
+  type: 'property_sale';
+  data: {
+    mortgageEventId: number; // Mortgage of the property being sold, redeemed from the proceeds
+    date: string; // ISO date string
+    salePrice: number;
+    sellingCosts: number; // Agent and legal fees
+  };
+}
+
+// How a car loses value over time
+export interface VehicleDepreciation {
+  model: 'stepped' | 'declining_balance' | 'straight_line' | 'custom';
+  annualRate?: number; // declining_balance: share of the value lost each year, as decimal
+  targetValue?: number; // straight_line: value reached after targetYears
+  targetYears?: number; // straight_line
+  yearlyRates?: number[]; // custom: share of the value lost in each year of ownership, the last rate repeats
+  floorValue?: number; // The car is never valued below this, defaults to 1500
+}
+
+// What happens to a PCP car when the agreement ends
+export interface PCPEndOfTerm {
+  option: 'pay_balloon' | 'hand_back' | 'part_exchange'; // Keep the car, return it, or trade it in for a new PCP
+  excessMileageCharge?: number; // Charged when the car is handed back
+  nextAgreement?: { // New PCP taken out when part-exchanging, any equity in the old car becomes its deposit
+    purchasePrice: number;
+    years: 2 | 3 | 5;
+    residualValue: number;
+    interestRate: number; // Annual rate as decimal
+    additionalDeposit?: number; // Cash added to the equity from the old car
+    depreciation?: VehicleDepreciation; // Defaults to the depreciation of the old car
+    endOfTerm?: PCPEndOfTerm;
   };
 }
 
@@ -62,6 +147,8 @@ export interface PCPEvent extends BaseEvent {
     years: 2 | 3 | 5;
     residualValue: number;
     interestRate: number; // Annual rate as decimal
+    depreciation?: VehicleDepreciation; // Defaults to the stepped curve
+    endOfTerm?: PCPEndOfTerm; // Defaults to handing the car back
   };
 }
 
@@ -73,10 +160,91 @@ export interface CarLoanEvent extends BaseEvent {
     deposit: number;
     years: number; // 3-10 years
     interestRate: number; // Annual rate as decimal
+    depreciation?: VehicleDepreciation; // Defaults to the stepped curve
+  };
+}
+
+export interface InvestmentEvent extends BaseEvent {
+  type: 'investment';
+  data: {
+    startDate: string; // ISO date string, when the account is opened
+    openingBalance: number; // Balance on startDate (or on the plan start date for accounts already open)
+    contributions: {
+      startDate: string; // ISO date string, when this monthly amount takes effect
+      amount: number; // Monthly contribution until the next entry
+    }[];
+    annualGrowthRate: number; // Expected annual growth as decimal (e.g., 0.05 for 5%)
+    withdrawals?: {
+      date: string; // ISO date string
+      amount: number;
+    }[];
+    endDate?: string; // ISO date string, when the account is closed and the balance withdrawn
+  };
+}
+
+export interface PensionEvent extends BaseEvent {
+  type: 'pension';
+  data: {
+    incomeEventId?: number; // Income event contributions are a percentage of (gross pay when grossSalary is set)
+    openingBalance: number; // Pot value on the plan start date
+    employeeContributionRate: number; // Decimal of pay, taken from take-home pay
+    employerContributionRate: number; // Decimal of pay, paid by the employer
+    taxReliefRate: number; // Relief added on top of employee contributions (e.g., 0.25 for basic rate relief at source)
+    annualGrowthRate: number; // Expected annual growth as decimal
+    accessDate?: string; // ISO date string, when the pot can be accessed
+    dateOfBirth?: string; // ISO date string, used with accessAge when accessDate is not set
+    accessAge?: number; // Age the pot can be accessed (e.g., 57)
+    drawdown?: {
+      startDate?: string; // ISO date string, defaults to the access date
+      monthlyAmount: number; // Taken from the pot each month until it runs out, before tax
+      jurisdiction?: string; // Tax rules applied to the drawdown, 'uk' when omitted
+    };
+  };
+}
+
+export interface LoanEvent extends BaseEvent {
+  type: 'loan';
+  data: {
+    startDate: string; // ISO date string, when the principal is received
+    principal: number;
+    interestRate: number; // APR as decimal
+    termMonths: number; // Number of monthly payments
+    paymentHoliday?: { // Payments pause while interest is added to the balance, the term is extended by the holiday
+      startDate: string; // ISO date string
+      months: number;
+    };
+  };
+}
+
+export interface CreditCardEvent extends BaseEvent {
+  type: 'credit_card';
+  data: {
+    startDate: string; // ISO date string, when the balance is first carried
+    openingBalance: number;
+    interestRate: number; // APR as decimal
+    minimumPayment?: { // Used when fixedPayment is not set
+      rate: number; // Decimal of the balance, paid on top of the month's interest
+      floor: number; // Smallest payment taken while a balance remains
+    };
+    fixedPayment?: number; // Monthly payment until the balance is cleared
+    promotionalEndDate?: string; // ISO date string (exclusive), 0% interest until then
+  };
+}
+
+export interface StudentLoanEvent extends BaseEvent {
+  type: 'student_loan';
+  data: {
+    incomeEventId?: number; // Income event repayments are taken from (gross pay when grossSalary is set)
+    plan: 'plan_1' | 'plan_2' | 'plan_4' | 'plan_5' | 'postgraduate';
+    balance: number; // Outstanding balance on the plan start date
+    rpiRate: number; // Assumed annual RPI as decimal, the basis of the plan's interest
+    interestRate?: number; // Annual rate as decimal, overrides the plan's interest rules
+    firstRepaymentDate: string; // ISO date string, the April after leaving the course
+    writeOffDate?: string; // ISO date string, defaults to the end of the plan's term from firstRepaymentDate
   };
 }
 
-export type Event = IncomeEvent | ExpenseEvent | MortgageEvent | MortgageRepaymentEvent | PCPEvent | CarLoanEvent;
+export type Event = IncomeEvent | ExpenseEvent | MortgageEvent | MortgageRepaymentEvent | PCPEvent | CarLoanEvent | InvestmentEvent | PensionEvent | PropertySaleEvent | LoanEvent | CreditCardEvent | StudentLoanEvent;
 
 // Database row interface (as stored in SQLite)
 export interface EventRow {
@@ -84,6 +252,7 @@ export interface EventRow {
   plan_id: number;
   type: EventType;
   data: string; // JSON string
+  currency: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -94,6 +263,7 @@ export const rowToEvent = (row: EventRow): Event => {
     id: row.id,
     planId: row.plan_id,
     type: row.type,
+    ...(row.currency && { currency: row.currency }),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -112,6 +282,7 @@ export const eventToRow = (event: Event): Omit<EventRow, 'id' | 'created_at' | '
     plan_id: event.planId,
     type: event.type,
     data: JSON.stringify(event.data),
+    currency: event.currency ?? null,
   };
 };
 
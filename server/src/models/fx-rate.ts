@@ -0,0 +1,55 @@
+// FX rate type definitions
+
+// Rate taking effect from a date, used for projections
+export interface FxRatePoint {
+  date: string; // ISO date string (YYYY-MM-DD)
+  rate: number;
+}
+
+export interface FxRate {
+  id?: number;
+  userId: number;
+  fromCurrency: string; // ISO 4217 code (e.g., 'EUR')
+  toCurrency: string; // ISO 4217 code (e.g., 'GBP')
+  rate: number; // Units of toCurrency per unit of fromCurrency
+  ratePath: FxRatePoint[]; // Dated rates replacing the rate from each date on, in date order
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Database row interface (as stored in SQLite)
+export interface FxRateRow {
+  id: number;
+  user_id: number;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_path: string; // JSON string
+  created_at: string;
+  updated_at: string;
+}
+
+// Helper function to convert database row to FxRate object
+export const rowToFxRate = (row: FxRateRow): FxRate => {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    fromCurrency: row.from_currency,
+    toCurrency: row.to_currency,
+    rate: row.rate,
+    ratePath: JSON.parse(row.rate_path),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+// Helper function to convert FxRate object to database format
+export const fxRateToRow = (fxRate: FxRate): Omit<FxRateRow, 'id' | 'created_at' | 'updated_at'> => {
+  return {
+    user_id: fxRate.userId,
+    from_currency: fxRate.fromCurrency,
+    to_currency: fxRate.toCurrency,
+    rate: fxRate.rate,
+    rate_path: JSON.stringify(fxRate.ratePath),
+  };
+};
@@ -0,0 +1,78 @@
+// Goal type definitions
+
+export type GoalType = 'savings_target' | 'emergency_fund' | 'debt_free';
+
+// All supported goal types, in the order they are listed in the goals.type CHECK constraint
+export const GOAL_TYPES: GoalType[] = ['savings_target', 'emergency_fund', 'debt_free'];
+
+export interface BaseGoal {
+  id?: number;
+  planId: number;
+  name: string;
+  type: GoalType;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SavingsTargetGoal extends BaseGoal {
+  type: 'savings_target';
+  data: {
+    amount: number;
+    targetDate: string; // ISO date string (YYYY-MM-DD)
+    measure?: 'liquidity' | 'net_worth'; // Defaults to liquidity
+  };
+}
+
+export interface EmergencyFundGoal extends BaseGoal {
+  type: 'emergency_fund';
+  data: {
+    months: number; // Months of outgoings to hold in cash
+    targetDate?: string; // ISO date string (YYYY-MM-DD), the end of the projection when omitted
+  };
+}
+
+export interface DebtFreeGoal extends BaseGoal {
+  type: 'debt_free';
+  data: {
+    eventId?: number; // Loan to clear, all debts when omitted
+    targetDate?: string; // ISO date string (YYYY-MM-DD), the end of the projection when neither this nor age is set
+    dateOfBirth?: string; // ISO date string (YYYY-MM-DD), used with age instead of targetDate
+    age?: number;
+  };
+}
+
+export type Goal = SavingsTargetGoal | EmergencyFundGoal | DebtFreeGoal;
+
+// Database row interface (as stored in SQLite)
+export interface GoalRow {
+  id: number;
+  plan_id: number;
+  name: string;
+  type: GoalType;
+  data: string; // JSON string
+  created_at: string;
+  updated_at: string;
+}
+
+// Helper function to convert database row to Goal object
+export const rowToGoal = (row: GoalRow): Goal => {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    name: row.name,
+    type: row.type,
+    data: JSON.parse(row.data),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } as Goal;
+};
+
+// Helper function to convert Goal object to database format
+export const goalToRow = (goal: Goal): Omit<GoalRow, 'id' | 'created_at' | 'updated_at'> => {
+  return {
+    plan_id: goal.planId,
+    name: goal.name,
+    type: goal.type,
+    data: JSON.stringify(goal.data),
+  };
+};
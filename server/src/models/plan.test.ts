@@ -14,6 +14,12 @@ describe('Plan Models', () => {
         user_id: 100,
         name: 'My Financial Plan',
         start_date: '2025-01-01',
+        opening_cash: 0,
+        opening_assets: 0,
+        opening_debts: '[]',
+        cash_settings: '{}',
+        base_currency: 'GBP',
+        inflation_rate: 0.02,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -25,6 +31,12 @@ describe('Plan Models', () => {
         userId: 100,
         name: 'My Financial Plan',
         startDate: '2025-01-01',
+        openingCash: 0,
+        openingAssets: 0,
+        openingDebts: [],
+        cashSettings: {},
+        baseCurrency: 'GBP',
+        inflationRate: 0.02,
         createdAt: '2025-01-01T00:00:00Z',
         updatedAt: '2025-01-01T00:00:00Z',
       });
@@ -36,6 +48,12 @@ describe('Plan Models', () => {
         user_id: -50000,
         name: 'Guest Plan',
         start_date: '2025-02-01',
+        opening_cash: 0,
+        opening_assets: 0,
+        opening_debts: '[]',
+        cash_settings: '{}',
+        base_currency: 'GBP',
+        inflation_rate: 0.02,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -45,6 +63,52 @@ describe('Plan Models', () => {
       expect(plan.userId).to.equal(-50000);
       expect(plan.name).to.equal('Guest Plan');
     });
+
+    it('should parse opening debts from JSON', () => {
+      const row: PlanRow = {
+        id: 3,
+        user_id: 100,
+        name: 'Homeowner Plan',
+        start_date: '2025-01-01',
+        opening_cash: 12000,
+        opening_assets: 150000,
+        opening_debts: JSON.stringify([{ eventId: 7, balance: 180000 }]),
+        cash_settings: '{}',
+        base_currency: 'GBP',
+        inflation_rate: 0.02,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      };
+
+      const plan = rowToPlan(row);
+
+      expect(plan.openingCash).to.equal(12000);
+      expect(plan.openingAssets).to.equal(150000);
+      expect(plan.openingDebts).to.deep.equal([{ eventId: 7, balance: 180000 }]);
+    });
+
+    it('should parse cash settings from JSON', () => {
+      const row: PlanRow = {
+        id: 4,
+        user_id: 100,
+        name: 'Overdraft Plan',
+        start_date: '2025-01-01',
+        opening_cash: 0,
+        opening_assets: 0,
+        opening_debts: '[]',
+        cash_settings: JSON.stringify({ savingsRate: 0.04, overdraftLimit: 1000, overdraftRate: 0.2 }),
+        base_currency: 'EUR',
+        inflation_rate: 0.03,
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      };
+
+      const plan = rowToPlan(row);
+
+      expect(plan.cashSettings).to.deep.equal({ savingsRate: 0.04, overdraftLimit: 1000, overdraftRate: 0.2 });
+      expect(plan.baseCurrency).to.equal('EUR');
+      expect(plan.inflationRate).to.equal(0.03);
+    });
   });
 
   describe('planToRow', () => {
@@ -54,6 +118,12 @@ describe('Plan Models', () => {
         userId: 100,
         name: 'My Financial Plan',
         startDate: '2025-01-01',
+        openingCash: 0,
+        openingAssets: 0,
+        openingDebts: [],
+        cashSettings: {},
+        baseCurrency: 'GBP',
+        inflationRate: 0.02,
         createdAt: '2025-01-01T00:00:00Z',
         updatedAt: '2025-01-01T00:00:00Z',
       };
@@ -64,6 +134,12 @@ describe('Plan Models', () => {
         user_id: 100,
         name: 'My Financial Plan',
         start_date: '2025-01-01',
+        opening_cash: 0,
+        opening_assets: 0,
+        opening_debts: '[]',
+        cash_settings: '{}',
+        base_currency: 'GBP',
+        inflation_rate: 0.02,
       });
     });
 
@@ -73,6 +149,12 @@ describe('Plan Models', () => {
         userId: 100,
         name: 'Test Plan',
         startDate: '2025-01-01',
+        openingCash: 0,
+        openingAssets: 0,
+        openingDebts: [],
+        cashSettings: {},
+        baseCurrency: 'GBP',
+        inflationRate: 0.02,
         createdAt: '2025-01-01T00:00:00Z',
         updatedAt: '2025-01-01T00:00:00Z',
       };
@@ -94,6 +176,12 @@ describe('Plan Models', () => {
         user_id: 100,
         name: 'Test Plan',
         start_date: '2025-01-01',
+        opening_cash: 0,
+        opening_assets: 0,
+        opening_debts: '[]',
+        cash_settings: '{}',
+        base_currency: 'GBP',
+        inflation_rate: 0.02,
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z',
       };
@@ -104,6 +192,7 @@ describe('Plan Models', () => {
       expect(newRow.user_id).to.equal(originalRow.user_id);
       expect(newRow.name).to.equal(originalRow.name);
       expect(newRow.start_date).to.equal(originalRow.start_date);
+      expect(JSON.parse(newRow.opening_debts)).to.deep.equal(JSON.parse(originalRow.opening_debts));
     });
   });
 });
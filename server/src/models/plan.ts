@@ -1,10 +1,29 @@
 // Plan type definitions
 
+export interface OpeningDebt {
+  eventId: number; // Mortgage, car loan, loan or credit card event the balance belongs to
+  balance: number; // Outstanding balance on the plan start date
+}
+
+// Interest on the plan's cash balance, all rates annual as decimal
+export interface CashSettings {
+  savingsRate?: number; // Earned on positive liquidity
+  overdraftLimit?: number; // Arranged overdraft, as a positive amount
+  overdraftRate?: number; // Charged on negative liquidity within the arranged limit
+  unarrangedOverdraftRate?: number; // Charged on the part beyond the limit, defaults to the overdraft rate
+}
+
 export interface Plan {
   id?: number;
   userId: number;
   name: string;
   startDate: string; // ISO date string (YYYY-MM-DD)
+  openingCash: number; // Cash held on the start date
+  openingAssets: number; // Value of existing asset holdings on the start date
+  openingDebts: OpeningDebt[]; // Outstanding balances of loans already running on the start date
+  cashSettings: CashSettings;
+  baseCurrency: string; // ISO 4217 code the projection is reported in, events in other currencies are converted
+  inflationRate: number; // Annual inflation assumption as decimal, used to deflate values to the start date
   createdAt?: string;
   updatedAt?: string;
 }
@@ -15,6 +34,12 @@ export interface PlanRow {
   user_id: number;
   name: string;
   start_date: string;
+  opening_cash: number;
+  opening_assets: number;
+  opening_debts: string; // JSON string
+  cash_settings: string; // JSON string
+  base_currency: string;
+  inflation_rate: number;
   created_at: string;
   updated_at: string;
 }
@@ -26,6 +51,12 @@ export const rowToPlan = (row: PlanRow): Plan => {
     userId: row.user_id,
     name: row.name,
     startDate: row.start_date,
+    openingCash: row.opening_cash,
+    openingAssets: row.opening_assets,
+    openingDebts: JSON.parse(row.opening_debts),
+    cashSettings: JSON.parse(row.cash_settings),
+    baseCurrency: row.base_currency,
+    inflationRate: row.inflation_rate,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -37,6 +68,11 @@ export const planToRow = (plan: Plan): Omit<PlanRow, 'id' | 'created_at' | 'upda
     user_id: plan.userId,
     name: plan.name,
     start_date: plan.startDate,
+    opening_cash: plan.openingCash,
+    opening_assets: plan.openingAssets,
+    opening_debts: JSON.stringify(plan.openingDebts),
+    cash_settings: JSON.stringify(plan.cashSettings),
+    base_currency: plan.baseCurrency,
+    inflation_rate: plan.inflationRate,
   };
 };
-
@@ -0,0 +1,105 @@
+/**
+ * Tests for Scenario models and helper functions
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { rowToScenario, scenarioToRow, applyScenarioOverrides, ScenarioRow, Scenario } from './scenario';
+import { Event, ExpenseEvent, IncomeEvent } from './events';
+
+describe('Scenario Models', () => {
+  describe('rowToScenario', () => {
+    it('should convert scenario row to scenario object', () => {
+      const row: ScenarioRow = {
+        id: 1,
+        plan_id: 10,
+        name: 'Part-time',
+        overrides: JSON.stringify({ added: [], removed: [2], modified: [] }),
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      };
+
+      expect(rowToScenario(row)).to.deep.equal({
+        id: 1,
+        planId: 10,
+        name: 'Part-time',
+        overrides: { added: [], removed: [2], modified: [] },
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      });
+    });
+  });
+
+  describe('scenarioToRow', () => {
+    it('should serialize overrides to JSON', () => {
+      const scenario: Scenario = {
+        planId: 10,
+        name: 'Bigger house',
+        overrides: { added: [], removed: [], modified: [{ eventId: 3, data: { amount: 2000, isRecurrent: true, months: [], startDate: '2025-01-01' } }] },
+      };
+
+      const row = scenarioToRow(scenario);
+
+      expect(row.plan_id).to.equal(10);
+      expect(row.name).to.equal('Bigger house');
+      expect(JSON.parse(row.overrides)).to.deep.equal(scenario.overrides);
+    });
+  });
+
+  describe('applyScenarioOverrides', () => {
+    const events: Event[] = [
+      {
+        id: 1,
+        planId: 10,
+        type: 'income',
+        data: { amount: 4000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+      } as IncomeEvent,
+      {
+        id: 2,
+        planId: 10,
+        type: 'expense',
+        data: { amount: 1500, isRecurrent: true, months: [], startDate: '2025-01-01' },
+      } as ExpenseEvent,
+    ];
+
+    it('should inherit the plan events when there are no overrides', () => {
+      expect(applyScenarioOverrides(events, { added: [], removed: [], modified: [] })).to.deep.equal(events);
+    });
+
+    it('should remove, modify and add events', () => {
+      const result = applyScenarioOverrides(events, {
+        added: [{ type: 'expense', data: { amount: 300, isRecurrent: true, months: [], startDate: '2025-06-01' } }],
+        removed: [2],
+        modified: [{ eventId: 1, data: { amount: 2400, isRecurrent: true, months: [], startDate: '2025-01-01' } }],
+      });
+
+      expect(result).to.have.lengthOf(2);
+      expect(result[0]).to.deep.include({ id: 1, type: 'income' });
+      expect((result[0] as IncomeEvent).data.amount).to.equal(2400);
+      expect(result[1]).to.deep.include({ id: -1, planId: 10, type: 'expense' });
+      expect((events[0] as IncomeEvent).data.amount).to.equal(4000);
+    });
+
+    it('should carry the currency of added and modified events', () => {
+      const result = applyScenarioOverrides(events, {
+        added: [{ type: 'income', data: { amount: 500, isRecurrent: true, months: [], startDate: '2025-01-01' }, currency: 'USD' }],
+        removed: [],
+        modified: [{ eventId: 2, data: { amount: 1200, isRecurrent: true, months: [], startDate: '2025-01-01' }, currency: 'EUR' }],
+      });
+
+      expect(result[0]).to.not.have.property('currency');
+      expect(result[1].currency).to.equal('EUR');
+      expect(result[2].currency).to.equal('USD');
+    });
+
+    it('should ignore overrides of events no longer in the plan', () => {
+      const result = applyScenarioOverrides(events, {
+        added: [],
+        removed: [99],
+        modified: [{ eventId: 98, data: { amount: 1, isRecurrent: false, months: [], startDate: '2025-01-01' } }],
+      });
+
+      expect(result).to.deep.equal(events);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// Scenario type definitions
+
+import { Event, EventType } from './events';
+
+// Event that only exists in a scenario
+export interface ScenarioAddedEvent {
+  type: EventType;
+  data: Event['data'];
+  currency?: string; // The plan's base currency when omitted
+}
+
+// Replacement data for one of the plan's events
+export interface ScenarioModifiedEvent {
+  eventId: number;
+  data: Event['data'];
+  currency?: string; // Replacement currency, the event keeps its own when omitted
+}
+
+export interface ScenarioOverrides {
+  added: ScenarioAddedEvent[]; // Given ids -1, -2, ... in order, so other events can link to them
+  removed: number[]; // Plan event IDs left out of the scenario
+  modified: ScenarioModifiedEvent[];
+}
+
+export interface Scenario {
+  id?: number;
+  planId: number;
+  name: string;
+  overrides: ScenarioOverrides;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Database row interface (as stored in SQLite)
+export interface ScenarioRow {
+  id: number;
+  plan_id: number;
+  name: string;
+  overrides: string; // JSON string
+  created_at: string;
+  updated_at: string;
+}
+
+// Helper function to convert database row to Scenario object
+export const rowToScenario = (row: ScenarioRow): Scenario => {
+  return {
+    id: row.id,
+    planId: row.plan_id,
+    name: row.name,
+    overrides: JSON.parse(row.overrides),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+// Helper function to convert Scenario object to database format
+export const scenarioToRow = (scenario: Scenario): Omit<ScenarioRow, 'id' | 'created_at' | 'updated_at'> => {
+  return {
+    plan_id: scenario.planId,
+    name: scenario.name,
+    overrides: JSON.stringify(scenario.overrides),
+  };
+};
+
+// Helper function to build a scenario's events from the plan's events
+// Overrides of events that no longer exist in the plan are ignored
+export const applyScenarioOverrides = (events: Event[], overrides: ScenarioOverrides): Event[] => {
+  const removed = new Set(overrides.removed);
+
+  const inherited = events
+    .filter((event) => !removed.has(event.id!))
+    .map((event) => {
+      const modification = overrides.modified.find((modified) => modified.eventId === event.id);
+      if (!modification) {
+        return event;
+      }
+      return { ...event, data: modification.data, ...(modification.currency && { currency: modification.currency }) } as Event;
+    });
+
+  const added = overrides.added.map((event, index) => ({
+    id: -(index + 1),
+    planId: events[0]?.planId ?? 0,
+    type: event.type,
+    data: event.data,
+    ...(event.currency && { currency: event.currency }),
+  } as Event));
+
+  return [...inherited, ...added];
+};
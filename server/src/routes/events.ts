@@ -1,8 +1,12 @@
 import { Router, Request, Response } from 'express';
 import db from '../db/connection';
-import { Event, EventRow, rowToEvent, eventToRow, EventType } from '../models/events';
+import { Event, EventRow, rowToEvent, eventToRow, EventType, EVENT_TYPES } from '../models/events';
 import { PlanRow } from '../models/plan';
 import { ensureUserId } from '../middleware/auth';
+import { TAX_JURISDICTION_CODES } from '../services/tax-rules';
+import { isValidByDay } from '../services/recurrence';
+import { CURRENCY_CODE_PATTERN } from '../services/fx';
+import { addYears, isBefore, parseISO, startOfMonth } from 'date-fns';
 
 const router = Router();
 
@@ -51,7 +55,7 @@ router.post('/:planId/events', (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const planId = parseInt(req.params.planId, 10);
-    const { type, data } = req.body;
+    const { type, data, currency } = req.body;
     
     if (isNaN(planId)) {
       return res.status(400).json({ error: 'Invalid plan ID' });
@@ -66,8 +70,7 @@ router.post('/:planId/events', (req: Request, res: Response) => {
     }
     
     // Validate event type
-    const validTypes: EventType[] = ['income', 'expense', 'mortgage', 'mortgage_repayment', 'pcp', 'car_loan'];
-    if (!type || !validTypes.includes(type)) {
+    if (!type || !EVENT_TYPES.includes(type)) {
       return res.status(400).json({ error: 'Invalid event type' });
     }
     
@@ -82,19 +85,24 @@ router.post('/:planId/events', (req: Request, res: Response) => {
       return res.status(400).json({ error: validationError });
     }
     
+    if (currency !== undefined && !isValidEventCurrency(currency)) {
+      return res.status(400).json({ error: 'Currency must be a three-letter currency code (e.g., EUR)' });
+    }
+    
     const event: Event = {
       planId,
       type,
       data,
+      currency: currency ?? undefined,
     } as Event;
     
     const eventRow = eventToRow(event);
     
     const stmt = db.prepare(
-      'INSERT INTO events (plan_id, type, data) VALUES (?, ?, ?)'
+      'INSERT INTO events (plan_id, type, data, currency) VALUES (?, ?, ?, ?)'
     );
     
-    const result = stmt.run(eventRow.plan_id, eventRow.type, eventRow.data);
+    const result = stmt.run(eventRow.plan_id, eventRow.type, eventRow.data, eventRow.currency);
     
     // Fetch the created event
     const createdEvent = db.prepare('SELECT * FROM events WHERE id = ?').get(result.lastInsertRowid) as EventRow;
@@ -115,7 +123,7 @@ router.put('/:planId/events/:eventId', (req: Request, res: Response) => {
     const userId = req.userId!;
     const planId = parseInt(req.params.planId, 10);
     const eventId = parseInt(req.params.eventId, 10);
-    const { type, data } = req.body;
+    const { type, data, currency } = req.body;
     
     if (isNaN(planId) || isNaN(eventId)) {
       return res.status(400).json({ error: 'Invalid plan ID or event ID' });
@@ -139,8 +147,7 @@ router.put('/:planId/events/:eventId', (req: Request, res: Response) => {
     
     // Validate event type if provided
     if (type !== undefined) {
-      const validTypes: EventType[] = ['income', 'expense', 'mortgage', 'mortgage_repayment', 'pcp', 'car_loan'];
-      if (!validTypes.includes(type)) {
+      if (!EVENT_TYPES.includes(type)) {
         return res.status(400).json({ error: 'Invalid event type' });
       }
     }
@@ -158,6 +165,10 @@ router.put('/:planId/events/:eventId', (req: Request, res: Response) => {
       }
     }
     
+    if (currency !== undefined && !isValidEventCurrency(currency)) {
+      return res.status(400).json({ error: 'Currency must be a three-letter currency code (e.g., EUR)' });
+    }
+    
     // Update event
     const updates: string[] = [];
     const values: any[] = [];
@@ -172,6 +183,12 @@ router.put('/:planId/events/:eventId', (req: Request, res: Response) => {
       values.push(JSON.stringify(data));
     }
     
+    // null moves the event back to the plan's base currency
+    if (currency !== undefined) {
+      updates.push('currency = ?');
+      values.push(currency);
+    }
+    
     if (updates.length === 0) {
       return res.status(400).json({ error: 'No fields to update' });
     }
@@ -238,7 +255,7 @@ router.delete('/:planId/events/:eventId', (req: Request, res: Response) => {
 /**
  * Validate event data based on event type
  */
-function validateEventData(type: EventType, data: any): string | null {
+export function validateEventData(type: EventType, data: any): string | null {
   // Common date validation
   const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
   
@@ -263,6 +280,41 @@ function validateEventData(type: EventType, data: any): string | null {
       if (data.endDate && !dateRegex.test(data.endDate)) {
         return 'endDate must be in YYYY-MM-DD format';
       }
+      if (data.escalation !== undefined) {
+        if (!data.escalation || typeof data.escalation !== 'object') {
+          return 'escalation must be an object';
+        }
+        if (typeof data.escalation.annualRate !== 'number' || data.escalation.annualRate < -1 || data.escalation.annualRate > 1) {
+          return 'escalation annualRate must be a number between -1 and 1';
+        }
+        if (!['anniversary', 'january'].includes(data.escalation.applyOn)) {
+          return "escalation applyOn must be 'anniversary' or 'january'";
+        }
+      }
+      if (data.recurrence !== undefined) {
+        if (data.isRecurrent !== true) {
+          return 'recurrence is only supported when isRecurrent is true';
+        }
+        const recurrenceError = validateRecurrence(data.recurrence);
+        if (recurrenceError) {
+          return recurrenceError;
+        }
+      }
+      if (data.grossSalary !== undefined) {
+        if (type !== 'income') {
+          return 'grossSalary is only supported on income events';
+        }
+        if (!data.grossSalary || typeof data.grossSalary !== 'object') {
+          return 'grossSalary must be an object';
+        }
+        if (!TAX_JURISDICTION_CODES.includes(data.grossSalary.jurisdiction)) {
+          return `grossSalary jurisdiction must be one of: ${TAX_JURISDICTION_CODES.join(', ')}`;
+        }
+        if (data.grossSalary.salarySacrificeRate !== undefined &&
+          (typeof data.grossSalary.salarySacrificeRate !== 'number' || data.grossSalary.salarySacrificeRate < 0 || data.grossSalary.salarySacrificeRate > 1)) {
+          return 'grossSalary salarySacrificeRate must be a number between 0 and 1';
+        }
+      }
       break;
       
     case 'mortgage':
@@ -287,6 +339,46 @@ function validateEventData(type: EventType, data: any): string | null {
       if (typeof data.years !== 'number' || data.years <= 0) {
         return 'years must be a positive number';
       }
+      if (data.rateSchedule !== undefined) {
+        if (!Array.isArray(data.rateSchedule)) {
+          return 'rateSchedule must be an array';
+        }
+        for (const period of data.rateSchedule) {
+          if (!period || !period.startDate || !dateRegex.test(period.startDate)) {
+            return 'rateSchedule startDate must be in YYYY-MM-DD format';
+          }
+          if (period.endDate !== undefined && (!dateRegex.test(period.endDate) || period.endDate <= period.startDate)) {
+            return 'rateSchedule endDate must be in YYYY-MM-DD format and after startDate';
+          }
+          if (typeof period.rate !== 'number' || period.rate < 0 || period.rate > 1) {
+            return 'rateSchedule rate must be a number between 0 and 1';
+          }
+          if (period.productFee !== undefined && (typeof period.productFee !== 'number' || period.productFee < 0)) {
+            return 'rateSchedule productFee must be a non-negative number';
+          }
+        }
+      }
+      if (data.earlyRepaymentCharge !== undefined) {
+        const charge = data.earlyRepaymentCharge;
+        if (!charge || typeof charge !== 'object') {
+          return 'earlyRepaymentCharge must be an object';
+        }
+        if (typeof charge.allowanceRate !== 'number' || charge.allowanceRate < 0 || charge.allowanceRate > 1) {
+          return 'earlyRepaymentCharge allowanceRate must be a number between 0 and 1';
+        }
+        if (typeof charge.chargeRate !== 'number' || charge.chargeRate < 0 || charge.chargeRate > 1) {
+          return 'earlyRepaymentCharge chargeRate must be a number between 0 and 1';
+        }
+        if (charge.endDate !== undefined && !dateRegex.test(charge.endDate)) {
+          return 'earlyRepaymentCharge endDate must be in YYYY-MM-DD format';
+        }
+      }
+      if (data.propertyValue !== undefined && (typeof data.propertyValue !== 'number' || data.propertyValue <= 0)) {
+        return 'propertyValue must be a positive number';
+      }
+      if (data.appreciationRate !== undefined && (typeof data.appreciationRate !== 'number' || data.appreciationRate < -1 || data.appreciationRate > 1)) {
+        return 'appreciationRate must be a number between -1 and 1';
+      }
       break;
       
     case 'mortgage_repayment':
@@ -299,6 +391,30 @@ function validateEventData(type: EventType, data: any): string | null {
       if (typeof data.amount !== 'number' || data.amount <= 0) {
         return 'amount must be a positive number';
       }
+      if (data.frequencyMonths !== undefined && (!Number.isInteger(data.frequencyMonths) || data.frequencyMonths <= 0)) {
+        return 'frequencyMonths must be a positive integer';
+      }
+      if (data.endDate !== undefined && (!dateRegex.test(data.endDate) || data.endDate < data.date)) {
+        return 'endDate must be in YYYY-MM-DD format and not before date';
+      }
+      if (data.mode !== undefined && !['reduce_term', 'reduce_payment'].includes(data.mode)) {
+        return "mode must be 'reduce_term' or 'reduce_payment'";
+      }
+      break;
+      
+    case 'property_sale':
+      if (typeof data.mortgageEventId !== 'number' || data.mortgageEventId <= 0) {
+        return 'mortgageEventId must be a positive number';
+      }
+      if (!data.date || !dateRegex.test(data.date)) {
+        return 'date must be in YYYY-MM-DD format';
+      }
+      if (typeof data.salePrice !== 'number' || data.salePrice <= 0) {
+        return 'salePrice must be a positive number';
+      }
+      if (typeof data.sellingCosts !== 'number' || data.sellingCosts < 0) {
+        return 'sellingCosts must be a non-negative number';
+      }
       break;
       
     case 'pcp':
@@ -323,6 +439,18 @@ function validateEventData(type: EventType, data: any): string | null {
       if (typeof data.interestRate !== 'number' || data.interestRate < 0 || data.interestRate > 1) {
         return 'interestRate must be a number between 0 and 1';
       }
+      if (data.depreciation !== undefined) {
+        const depreciationError = validateVehicleDepreciation(data.depreciation);
+        if (depreciationError) {
+          return depreciationError;
+        }
+      }
+      if (data.endOfTerm !== undefined) {
+        const endOfTermError = validatePCPEndOfTerm(data.endOfTerm);
+        if (endOfTermError) {
+          return endOfTermError;
+        }
+      }
       break;
       
     case 'car_loan':
@@ -344,11 +472,341 @@ function validateEventData(type: EventType, data: any): string | null {
       if (typeof data.interestRate !== 'number' || data.interestRate < 0 || data.interestRate > 1) {
         return 'interestRate must be a number between 0 and 1';
       }
+      if (data.depreciation !== undefined) {
+        const depreciationError = validateVehicleDepreciation(data.depreciation);
+        if (depreciationError) {
+          return depreciationError;
+        }
+      }
+      break;
+      
+    case 'loan':
+      if (!data.startDate || !dateRegex.test(data.startDate)) {
+        return 'startDate must be in YYYY-MM-DD format';
+      }
+      if (typeof data.principal !== 'number' || data.principal <= 0) {
+        return 'principal must be a positive number';
+      }
+      if (typeof data.interestRate !== 'number' || data.interestRate < 0 || data.interestRate > 1) {
+        return 'interestRate must be a number between 0 and 1';
+      }
+      if (!Number.isInteger(data.termMonths) || data.termMonths < 1 || data.termMonths > 600) {
+        return 'termMonths must be an integer between 1 and 600';
+      }
+      if (data.paymentHoliday !== undefined) {
+        if (!data.paymentHoliday || typeof data.paymentHoliday !== 'object') {
+          return 'paymentHoliday must be an object';
+        }
+        if (!data.paymentHoliday.startDate || !dateRegex.test(data.paymentHoliday.startDate)) {
+          return 'paymentHoliday startDate must be in YYYY-MM-DD format';
+        }
+        if (data.paymentHoliday.startDate.slice(0, 7) <= data.startDate.slice(0, 7)) {
+          return 'paymentHoliday must start after the loan startDate';
+        }
+        if (!Number.isInteger(data.paymentHoliday.months) || data.paymentHoliday.months < 1) {
+          return 'paymentHoliday months must be a positive integer';
+        }
+      }
+      break;
+      
+    case 'credit_card':
+      if (!data.startDate || !dateRegex.test(data.startDate)) {
+        return 'startDate must be in YYYY-MM-DD format';
+      }
+      if (typeof data.openingBalance !== 'number' || data.openingBalance < 0) {
+        return 'openingBalance must be a non-negative number';
+      }
+      if (typeof data.interestRate !== 'number' || data.interestRate < 0 || data.interestRate > 1) {
+        return 'interestRate must be a number between 0 and 1';
+      }
+      if (data.fixedPayment === undefined && data.minimumPayment === undefined) {
+        return 'Either fixedPayment or minimumPayment is required';
+      }
+      if (data.fixedPayment !== undefined && (typeof data.fixedPayment !== 'number' || data.fixedPayment <= 0)) {
+        return 'fixedPayment must be a positive number';
+      }
+      if (data.minimumPayment !== undefined) {
+        if (!data.minimumPayment || typeof data.minimumPayment !== 'object') {
+          return 'minimumPayment must be an object';
+        }
+        if (typeof data.minimumPayment.rate !== 'number' || data.minimumPayment.rate < 0 || data.minimumPayment.rate > 1) {
+          return 'minimumPayment rate must be a number between 0 and 1';
+        }
+        if (typeof data.minimumPayment.floor !== 'number' || data.minimumPayment.floor < 0) {
+          return 'minimumPayment floor must be a non-negative number';
+        }
+        if (data.minimumPayment.rate === 0 && data.minimumPayment.floor === 0) {
+          return 'minimumPayment must have a positive rate or floor';
+        }
+      }
+      if (data.promotionalEndDate !== undefined && !dateRegex.test(data.promotionalEndDate)) {
+        return 'promotionalEndDate must be in YYYY-MM-DD format';
+      }
+      break;
+      
+    case 'investment':
+      if (!data.startDate || !dateRegex.test(data.startDate)) {
+        return 'startDate must be in YYYY-MM-DD format';
+      }
+      if (typeof data.openingBalance !== 'number' || data.openingBalance < 0) {
+        return 'openingBalance must be a non-negative number';
+      }
+      if (!Array.isArray(data.contributions)) {
+        return 'contributions must be an array';
+      }
+      for (const contribution of data.contributions) {
+        if (!contribution || !contribution.startDate || !dateRegex.test(contribution.startDate)) {
+          return 'contribution startDate must be in YYYY-MM-DD format';
+        }
+        if (typeof contribution.amount !== 'number' || contribution.amount < 0) {
+          return 'contribution amount must be a non-negative number';
+        }
+      }
+      if (typeof data.annualGrowthRate !== 'number' || data.annualGrowthRate < -1 || data.annualGrowthRate > 1) {
+        return 'annualGrowthRate must be a number between -1 and 1';
+      }
+      if (data.withdrawals !== undefined) {
+        if (!Array.isArray(data.withdrawals)) {
+          return 'withdrawals must be an array';
+        }
+        for (const withdrawal of data.withdrawals) {
+          if (!withdrawal || !withdrawal.date || !dateRegex.test(withdrawal.date)) {
+            return 'withdrawal date must be in YYYY-MM-DD format';
+          }
+          if (typeof withdrawal.amount !== 'number' || withdrawal.amount <= 0) {
+            return 'withdrawal amount must be a positive number';
+          }
+        }
+      }
+      if (data.endDate && !dateRegex.test(data.endDate)) {
+        return 'endDate must be in YYYY-MM-DD format';
+      }
+      if (data.endDate && data.endDate < data.startDate) {
+        return 'endDate cannot be before startDate';
+      }
+      break;
+      
+    case 'pension':
+      if (data.incomeEventId !== undefined && (typeof data.incomeEventId !== 'number' || data.incomeEventId <= 0)) {
+        return 'incomeEventId must be a positive number';
+      }
+      if (typeof data.openingBalance !== 'number' || data.openingBalance < 0) {
+        return 'openingBalance must be a non-negative number';
+      }
+      if (typeof data.employeeContributionRate !== 'number' || data.employeeContributionRate < 0 || data.employeeContributionRate > 1) {
+        return 'employeeContributionRate must be a number between 0 and 1';
+      }
+      if (typeof data.employerContributionRate !== 'number' || data.employerContributionRate < 0 || data.employerContributionRate > 1) {
+        return 'employerContributionRate must be a number between 0 and 1';
+      }
+      if (typeof data.taxReliefRate !== 'number' || data.taxReliefRate < 0 || data.taxReliefRate > 1) {
+        return 'taxReliefRate must be a number between 0 and 1';
+      }
+      if (typeof data.annualGrowthRate !== 'number' || data.annualGrowthRate < -1 || data.annualGrowthRate > 1) {
+        return 'annualGrowthRate must be a number between -1 and 1';
+      }
+      if (data.accessDate !== undefined) {
+        if (!dateRegex.test(data.accessDate)) {
+          return 'accessDate must be in YYYY-MM-DD format';
+        }
+      } else {
+        if (!data.dateOfBirth || !dateRegex.test(data.dateOfBirth)) {
+          return 'Either accessDate or dateOfBirth in YYYY-MM-DD format is required';
+        }
+        if (typeof data.accessAge !== 'number' || data.accessAge < 0 || data.accessAge > 100) {
+          return 'accessAge must be a number between 0 and 100';
+        }
+      }
+      if (data.drawdown !== undefined) {
+        if (!data.drawdown || typeof data.drawdown !== 'object') {
+          return 'drawdown must be an object';
+        }
+        if (data.drawdown.startDate !== undefined && !dateRegex.test(data.drawdown.startDate)) {
+          return 'drawdown startDate must be in YYYY-MM-DD format';
+        }
+        if (data.drawdown.startDate !== undefined && isBefore(startOfMonth(parseISO(data.drawdown.startDate)), getPensionAccessMonth(data))) {
+          return 'drawdown cannot start before the pot can be accessed';
+        }
+        if (data.drawdown.jurisdiction !== undefined && !TAX_JURISDICTION_CODES.includes(data.drawdown.jurisdiction)) {
+          return `drawdown jurisdiction must be one of: ${TAX_JURISDICTION_CODES.join(', ')}`;
+        }
+        if (typeof data.drawdown.monthlyAmount !== 'number' || data.drawdown.monthlyAmount < 0) {
+          return 'drawdown monthlyAmount must be a non-negative number';
+        }
+      }
+      break;
+      
+    case 'student_loan':
+      if (data.incomeEventId !== undefined && (typeof data.incomeEventId !== 'number' || data.incomeEventId <= 0)) {
+        return 'incomeEventId must be a positive number';
+      }
+      if (!['plan_1', 'plan_2', 'plan_4', 'plan_5', 'postgraduate'].includes(data.plan)) {
+        return "plan must be 'plan_1', 'plan_2', 'plan_4', 'plan_5' or 'postgraduate'";
+      }
+      if (typeof data.balance !== 'number' || data.balance < 0) {
+        return 'balance must be a non-negative number';
+      }
+      if (typeof data.rpiRate !== 'number' || data.rpiRate < -1 || data.rpiRate > 1) {
+        return 'rpiRate must be a number between -1 and 1';
+      }
+      if (data.interestRate !== undefined && (typeof data.interestRate !== 'number' || data.interestRate < 0 || data.interestRate > 1)) {
+        return 'interestRate must be a number between 0 and 1';
+      }
+      if (!data.firstRepaymentDate || !dateRegex.test(data.firstRepaymentDate)) {
+        return 'firstRepaymentDate must be in YYYY-MM-DD format';
+      }
+      if (data.writeOffDate !== undefined) {
+        if (!dateRegex.test(data.writeOffDate)) {
+          return 'writeOffDate must be in YYYY-MM-DD format';
+        }
+        if (data.writeOffDate <= data.firstRepaymentDate) {
+          return 'writeOffDate must be after firstRepaymentDate';
+        }
+      }
       break;
   }
   
   return null;
 }
 
-export default router;
+/**
+ * First month a pension pot can be accessed, from accessDate or from dateOfBirth and accessAge
+ */
+function getPensionAccessMonth(data: any): Date {
+  const accessDate = data.accessDate !== undefined ? parseISO(data.accessDate) : addYears(parseISO(data.dateOfBirth), data.accessAge);
+  return startOfMonth(accessDate);
+}
+
+/**
+ * Validate the end-of-term choice of a PCP, including any agreement it part-exchanges into
+ */
+function validatePCPEndOfTerm(endOfTerm: any): string | null {
+  if (!endOfTerm || typeof endOfTerm !== 'object') {
+    return 'endOfTerm must be an object';
+  }
+  if (!['pay_balloon', 'hand_back', 'part_exchange'].includes(endOfTerm.option)) {
+    return "endOfTerm option must be 'pay_balloon', 'hand_back' or 'part_exchange'";
+  }
+  if (endOfTerm.excessMileageCharge !== undefined && (typeof endOfTerm.excessMileageCharge !== 'number' || endOfTerm.excessMileageCharge < 0)) {
+    return 'endOfTerm excessMileageCharge must be a non-negative number';
+  }
+  if (endOfTerm.option === 'part_exchange') {
+    const next = endOfTerm.nextAgreement;
+    if (!next || typeof next !== 'object') {
+      return 'endOfTerm nextAgreement is required when part-exchanging';
+    }
+    if (typeof next.purchasePrice !== 'number' || next.purchasePrice <= 0) {
+      return 'nextAgreement purchasePrice must be a positive number';
+    }
+    if (![2, 3, 5].includes(next.years)) {
+      return 'nextAgreement years must be 2, 3, or 5';
+    }
+    if (typeof next.residualValue !== 'number' || next.residualValue < 0) {
+      return 'nextAgreement residualValue must be a non-negative number';
+    }
+    if (typeof next.interestRate !== 'number' || next.interestRate < 0 || next.interestRate > 1) {
+      return 'nextAgreement interestRate must be a number between 0 and 1';
+    }
+    if (next.additionalDeposit !== undefined && (typeof next.additionalDeposit !== 'number' || next.additionalDeposit < 0)) {
+      return 'nextAgreement additionalDeposit must be a non-negative number';
+    }
+    if (next.depreciation !== undefined) {
+      const depreciationError = validateVehicleDepreciation(next.depreciation);
+      if (depreciationError) {
+        return depreciationError;
+      }
+    }
+    if (next.endOfTerm !== undefined) {
+      return validatePCPEndOfTerm(next.endOfTerm);
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate the depreciation model of a PCP or car loan
+ */
+function validateVehicleDepreciation(depreciation: any): string | null {
+  if (!depreciation || typeof depreciation !== 'object') {
+    return 'depreciation must be an object';
+  }
+  if (depreciation.floorValue !== undefined && (typeof depreciation.floorValue !== 'number' || depreciation.floorValue < 0)) {
+    return 'depreciation floorValue must be a non-negative number';
+  }
+  switch (depreciation.model) {
+    case 'stepped':
+      break;
+    case 'declining_balance':
+      if (typeof depreciation.annualRate !== 'number' || depreciation.annualRate < 0 || depreciation.annualRate > 1) {
+        return 'depreciation annualRate must be a number between 0 and 1';
+      }
+      break;
+    case 'straight_line':
+      if (typeof depreciation.targetValue !== 'number' || depreciation.targetValue < 0) {
+        return 'depreciation targetValue must be a non-negative number';
+      }
+      if (typeof depreciation.targetYears !== 'number' || depreciation.targetYears <= 0) {
+        return 'depreciation targetYears must be a positive number';
+      }
+      break;
+    case 'custom':
+      if (!Array.isArray(depreciation.yearlyRates) || depreciation.yearlyRates.length === 0) {
+        return 'depreciation yearlyRates must be a non-empty array';
+      }
+      for (const rate of depreciation.yearlyRates) {
+        if (typeof rate !== 'number' || rate < 0 || rate > 1) {
+          return 'depreciation yearlyRates must be numbers between 0 and 1';
+        }
+      }
+      break;
+    default:
+      return "depreciation model must be 'stepped', 'declining_balance', 'straight_line' or 'custom'";
+  }
+  return null;
+}
+
+/**
+ * Check an event currency: a three-letter code, or null for the plan's base currency
+ */
+export function isValidEventCurrency(currency: any): boolean {
+  return currency === null || (typeof currency === 'string' && CURRENCY_CODE_PATTERN.test(currency));
+}
+
+/**
+ * Validate an RRULE-style recurrence of an income or expense
+ */
+function validateRecurrence(recurrence: any): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  
+  if (!recurrence || typeof recurrence !== 'object') {
+    return 'recurrence must be an object';
+  }
+  if (!['weekly', 'monthly', 'yearly'].includes(recurrence.frequency)) {
+    return "recurrence frequency must be 'weekly', 'monthly' or 'yearly'";
+  }
+  if (recurrence.interval !== undefined && (!Number.isInteger(recurrence.interval) || recurrence.interval < 1)) {
+    return 'recurrence interval must be a positive integer';
+  }
+  if (recurrence.byMonth !== undefined) {
+    if (!Array.isArray(recurrence.byMonth) || recurrence.byMonth.some((m: any) => !Number.isInteger(m) || m < 1 || m > 12)) {
+      return 'recurrence byMonth must be an array of numbers between 1 and 12';
+    }
+  }
+  if (recurrence.byDay !== undefined) {
+    if (!Array.isArray(recurrence.byDay) || recurrence.byDay.some((day: any) => typeof day !== 'string' || !isValidByDay(day))) {
+      return "recurrence byDay must be an array of weekdays (MO-SU), optionally with a position (e.g., '2TU', '-1FR')";
+    }
+    if (recurrence.frequency === 'weekly' && recurrence.byDay.some((day: string) => day.length > 2)) {
+      return 'recurrence byDay positions are only supported for monthly and yearly rules';
+    }
+  }
+  if (recurrence.count !== undefined && (!Number.isInteger(recurrence.count) || recurrence.count < 1)) {
+    return 'recurrence count must be a positive integer';
+  }
+  if (recurrence.until !== undefined && (typeof recurrence.until !== 'string' || !dateRegex.test(recurrence.until))) {
+    return 'recurrence until must be in YYYY-MM-DD format';
+  }
+  return null;
+}
 
+export default router;
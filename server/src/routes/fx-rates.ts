@@ -0,0 +1,225 @@
+import { Router, Request, Response } from 'express';
+import db from '../db/connection';
+import { FxRate, FxRateRow, rowToFxRate, fxRateToRow } from '../models/fx-rate';
+import { ensureUserId } from '../middleware/auth';
+import { CURRENCY_CODE_PATTERN } from '../services/fx';
+
+const router = Router();
+
+// Apply userId middleware to all routes
+router.use(ensureUserId);
+
+/**
+ * GET /api/fx-rates
+ * Get all FX rates of the current user
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    
+    return res.json({ fxRates: getUserFxRates(userId) });
+  } catch (error) {
+    console.error('Error fetching FX rates:', error);
+    return res.status(500).json({ error: 'Failed to fetch FX rates' });
+  }
+});
+
+/**
+ * POST /api/fx-rates
+ * Create a new FX rate
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { fromCurrency, toCurrency, rate, ratePath } = req.body;
+    
+    const validationError = validateFxRateData({ fromCurrency, toCurrency, rate, ratePath: ratePath ?? [] });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    // Only one rate per pair, in either direction
+    const pairStmt = db.prepare(
+      'SELECT * FROM fx_rates WHERE user_id = ? AND ((from_currency = ? AND to_currency = ?) OR (from_currency = ? AND to_currency = ?))'
+    );
+    if (pairStmt.get(userId, fromCurrency, toCurrency, toCurrency, fromCurrency)) {
+      return res.status(400).json({ error: `An FX rate between ${fromCurrency} and ${toCurrency} already exists` });
+    }
+    
+    const fxRate: FxRate = {
+      userId,
+      fromCurrency,
+      toCurrency,
+      rate,
+      ratePath: ratePath ?? [],
+    };
+    
+    const fxRateRow = fxRateToRow(fxRate);
+    
+    const stmt = db.prepare(
+      'INSERT INTO fx_rates (user_id, from_currency, to_currency, rate, rate_path) VALUES (?, ?, ?, ?, ?)'
+    );
+    const result = stmt.run(fxRateRow.user_id, fxRateRow.from_currency, fxRateRow.to_currency, fxRateRow.rate, fxRateRow.rate_path);
+    
+    // Fetch the created FX rate
+    const createdFxRate = db.prepare('SELECT * FROM fx_rates WHERE id = ?').get(result.lastInsertRowid) as FxRateRow;
+    
+    return res.status(201).json({ fxRate: rowToFxRate(createdFxRate) });
+  } catch (error) {
+    console.error('Error creating FX rate:', error);
+    return res.status(500).json({ error: 'Failed to create FX rate' });
+  }
+});
+
+/**
+ * PUT /api/fx-rates/:id
+ * Update the rate or rate path of an FX rate, the currency pair cannot be changed
+ */
+router.put('/:id', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const fxRateId = parseInt(req.params.id, 10);
+    const { rate, ratePath } = req.body;
+    
+    if (isNaN(fxRateId)) {
+      return res.status(400).json({ error: 'Invalid FX rate ID' });
+    }
+    
+    // Check if FX rate exists and belongs to user
+    const checkStmt = db.prepare('SELECT * FROM fx_rates WHERE id = ? AND user_id = ?');
+    const existingFxRate = checkStmt.get(fxRateId, userId) as FxRateRow | undefined;
+    
+    if (!existingFxRate) {
+      return res.status(404).json({ error: 'FX rate not found' });
+    }
+    
+    const current = rowToFxRate(existingFxRate);
+    const validationError = validateFxRateData({
+      fromCurrency: current.fromCurrency,
+      toCurrency: current.toCurrency,
+      rate: rate ?? current.rate,
+      ratePath: ratePath ?? current.ratePath,
+    });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    // Update FX rate
+    const updates: string[] = [];
+    const values: any[] = [];
+    
+    if (rate !== undefined) {
+      updates.push('rate = ?');
+      values.push(rate);
+    }
+    
+    if (ratePath !== undefined) {
+      updates.push('rate_path = ?');
+      values.push(JSON.stringify(ratePath));
+    }
+    
+    if (updates.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+    
+    values.push(fxRateId, userId);
+    
+    const updateStmt = db.prepare(
+      `UPDATE fx_rates SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`
+    );
+    
+    updateStmt.run(...values);
+    
+    // Fetch updated FX rate
+    const updatedFxRate = db.prepare('SELECT * FROM fx_rates WHERE id = ?').get(fxRateId) as FxRateRow;
+    
+    return res.json({ fxRate: rowToFxRate(updatedFxRate) });
+  } catch (error) {
+    console.error('Error updating FX rate:', error);
+    return res.status(500).json({ error: 'Failed to update FX rate' });
+  }
+});
+
+/**
+ * DELETE /api/fx-rates/:id
+ * Delete an FX rate
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const fxRateId = parseInt(req.params.id, 10);
+    
+    if (isNaN(fxRateId)) {
+      return res.status(400).json({ error: 'Invalid FX rate ID' });
+    }
+    
+    // Check if FX rate exists and belongs to user
+    const checkStmt = db.prepare('SELECT * FROM fx_rates WHERE id = ? AND user_id = ?');
+    const existingFxRate = checkStmt.get(fxRateId, userId) as FxRateRow | undefined;
+    
+    if (!existingFxRate) {
+      return res.status(404).json({ error: 'FX rate not found' });
+    }
+    
+    db.prepare('DELETE FROM fx_rates WHERE id = ? AND user_id = ?').run(fxRateId, userId);
+    
+    return res.json({ message: 'FX rate deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting FX rate:', error);
+    return res.status(500).json({ error: 'Failed to delete FX rate' });
+  }
+});
+
+/**
+ * Fetch all FX rates maintained by a user
+ */
+export function getUserFxRates(userId: number): FxRate[] {
+  const stmt = db.prepare('SELECT * FROM fx_rates WHERE user_id = ? ORDER BY from_currency, to_currency');
+  const rows = stmt.all(userId) as FxRateRow[];
+  
+  return rows.map(rowToFxRate);
+}
+
+/**
+ * Validate the currency pair, rate and dated rate path of an FX rate
+ */
+function validateFxRateData(data: any): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  
+  if (typeof data.fromCurrency !== 'string' || !CURRENCY_CODE_PATTERN.test(data.fromCurrency)) {
+    return 'fromCurrency must be a three-letter currency code (e.g., EUR)';
+  }
+  if (typeof data.toCurrency !== 'string' || !CURRENCY_CODE_PATTERN.test(data.toCurrency)) {
+    return 'toCurrency must be a three-letter currency code (e.g., GBP)';
+  }
+  if (data.fromCurrency === data.toCurrency) {
+    return 'fromCurrency and toCurrency must differ';
+  }
+  if (typeof data.rate !== 'number' || !isFinite(data.rate) || data.rate <= 0) {
+    return 'rate must be a positive number';
+  }
+  if (!Array.isArray(data.ratePath)) {
+    return 'ratePath must be an array';
+  }
+  
+  let previousDate = '';
+  for (const point of data.ratePath) {
+    if (!point || typeof point !== 'object') {
+      return 'Each ratePath entry must be an object';
+    }
+    if (typeof point.date !== 'string' || !dateRegex.test(point.date)) {
+      return 'ratePath date must be in YYYY-MM-DD format';
+    }
+    if (point.date <= previousDate) {
+      return 'ratePath dates must be in ascending order';
+    }
+    if (typeof point.rate !== 'number' || !isFinite(point.rate) || point.rate <= 0) {
+      return 'ratePath rate must be a positive number';
+    }
+    previousDate = point.date;
+  }
+  
+  return null;
+}
+
+export default router;
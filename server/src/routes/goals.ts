@@ -0,0 +1,360 @@
+import { Router, Request, Response } from 'express';
+import db from '../db/connection';
+import { EventRow } from '../models/events';
+import { Goal, GoalRow, GoalType, GOAL_TYPES, rowToGoal, goalToRow } from '../models/goal';
+import { PlanRow, rowToPlan } from '../models/plan';
+import { ensureUserId } from '../middleware/auth';
+import { evaluateGoals } from '../services/goals';
+import { getFxRateError, projectPlan } from './plans';
+
+const router = Router();
+
+// Apply userId middleware to all routes
+router.use(ensureUserId);
+
+/**
+ * GET /api/plans/:planId/goals
+ * Get all goals of a plan
+ */
+router.get('/:planId/goals', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const stmt = db.prepare('SELECT * FROM goals WHERE plan_id = ? ORDER BY created_at');
+    const rows = stmt.all(planId) as GoalRow[];
+    
+    return res.json({ goals: rows.map(rowToGoal) });
+  } catch (error) {
+    console.error('Error fetching goals:', error);
+    return res.status(500).json({ error: 'Failed to fetch goals' });
+  }
+});
+
+/**
+ * GET /api/plans/:planId/goals/evaluation
+ * Check each goal against the plan's projection: whether it is met, the month it is reached
+ * and the shortfall or surplus
+ * Query params: rangeYears (5-20, default 10)
+ */
+router.get('/:planId/goals/evaluation', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const rangeYears = parseInt(req.query.rangeYears as string, 10) || 10;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Validate rangeYears
+    if (rangeYears < 5 || rangeYears > 20) {
+      return res.status(400).json({ error: 'Range years must be between 5 and 20' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!planRow) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const plan = rowToPlan(planRow);
+    const fxRateError = getFxRateError(plan);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
+    
+    const chartData = projectPlan(plan, rangeYears, { includeCashflow: true });
+    
+    const goalRows = db.prepare('SELECT * FROM goals WHERE plan_id = ? ORDER BY created_at').all(planId) as GoalRow[];
+    
+    return res.json({ goals: evaluateGoals(goalRows.map(rowToGoal), chartData) });
+  } catch (error) {
+    console.error('Error evaluating goals:', error);
+    return res.status(500).json({ error: 'Failed to evaluate goals' });
+  }
+});
+
+/**
+ * POST /api/plans/:planId/goals
+ * Create a new goal
+ */
+router.post('/:planId/goals', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const { name, type, data } = req.body;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Goal name is required' });
+    }
+    
+    // Validate goal type
+    if (!type || !GOAL_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Invalid goal type' });
+    }
+    
+    // Validate data
+    if (!data || typeof data !== 'object') {
+      return res.status(400).json({ error: 'Goal data is required' });
+    }
+    
+    const validationError = validateGoalData(type, data) ?? validateGoalEvent(planId, type, data);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    const goal = {
+      planId,
+      name: name.trim(),
+      type,
+      data,
+    } as Goal;
+    
+    const goalRow = goalToRow(goal);
+    
+    const stmt = db.prepare('INSERT INTO goals (plan_id, name, type, data) VALUES (?, ?, ?, ?)');
+    const result = stmt.run(goalRow.plan_id, goalRow.name, goalRow.type, goalRow.data);
+    
+    // Fetch the created goal
+    const createdGoal = db.prepare('SELECT * FROM goals WHERE id = ?').get(result.lastInsertRowid) as GoalRow;
+    
+    return res.status(201).json({ goal: rowToGoal(createdGoal) });
+  } catch (error) {
+    console.error('Error creating goal:', error);
+    return res.status(500).json({ error: 'Failed to create goal' });
+  }
+});
+
+/**
+ * PUT /api/plans/:planId/goals/:goalId
+ * Update a goal
+ */
+router.put('/:planId/goals/:goalId', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const goalId = parseInt(req.params.goalId, 10);
+    const { name, type, data } = req.body;
+    
+    if (isNaN(planId) || isNaN(goalId)) {
+      return res.status(400).json({ error: 'Invalid plan ID or goal ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    // Verify goal belongs to plan
+    const goalStmt = db.prepare('SELECT * FROM goals WHERE id = ? AND plan_id = ?');
+    const existingGoal = goalStmt.get(goalId, planId) as GoalRow | undefined;
+    
+    if (!existingGoal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+    
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      return res.status(400).json({ error: 'Goal name must be a non-empty string' });
+    }
+    
+    // Validate goal type if provided
+    if (type !== undefined && !GOAL_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Invalid goal type' });
+    }
+    
+    // Changing the type needs data for the new type
+    if (type !== undefined && type !== existingGoal.type && data === undefined) {
+      return res.status(400).json({ error: 'Goal data is required when changing the goal type' });
+    }
+    
+    // Validate data if provided
+    if (data !== undefined) {
+      if (!data || typeof data !== 'object') {
+        return res.status(400).json({ error: 'Goal data must be an object' });
+      }
+      
+      const validationError = validateGoalData(type || existingGoal.type, data) ?? validateGoalEvent(planId, type || existingGoal.type, data);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+    }
+    
+    // Update goal
+    const updates: string[] = [];
+    const values: any[] = [];
+    
+    if (name !== undefined) {
+      updates.push('name = ?');
+      values.push(name.trim());
+    }
+    
+    if (type !== undefined) {
+      updates.push('type = ?');
+      values.push(type);
+    }
+    
+    if (data !== undefined) {
+      updates.push('data = ?');
+      values.push(JSON.stringify(data));
+    }
+    
+    if (updates.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+    
+    values.push(goalId, planId);
+    
+    const updateStmt = db.prepare(
+      `UPDATE goals SET ${updates.join(', ')} WHERE id = ? AND plan_id = ?`
+    );
+    
+    updateStmt.run(...values);
+    
+    // Fetch updated goal
+    const updatedGoal = db.prepare('SELECT * FROM goals WHERE id = ?').get(goalId) as GoalRow;
+    
+    return res.json({ goal: rowToGoal(updatedGoal) });
+  } catch (error) {
+    console.error('Error updating goal:', error);
+    return res.status(500).json({ error: 'Failed to update goal' });
+  }
+});
+
+/**
+ * DELETE /api/plans/:planId/goals/:goalId
+ * Delete a goal
+ */
+router.delete('/:planId/goals/:goalId', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const goalId = parseInt(req.params.goalId, 10);
+    
+    if (isNaN(planId) || isNaN(goalId)) {
+      return res.status(400).json({ error: 'Invalid plan ID or goal ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    // Verify goal belongs to plan
+    const goalStmt = db.prepare('SELECT * FROM goals WHERE id = ? AND plan_id = ?');
+    const existingGoal = goalStmt.get(goalId, planId) as GoalRow | undefined;
+    
+    if (!existingGoal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+    
+    db.prepare('DELETE FROM goals WHERE id = ? AND plan_id = ?').run(goalId, planId);
+    
+    return res.json({ message: 'Goal deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting goal:', error);
+    return res.status(500).json({ error: 'Failed to delete goal' });
+  }
+});
+
+// Event types whose outstanding balance a debt-free goal can track
+const DEBT_EVENT_TYPES = ['mortgage', 'car_loan', 'pcp', 'loan', 'credit_card', 'student_loan'];
+
+/**
+ * Check that the event a debt-free goal tracks is a debt of the plan
+ */
+function validateGoalEvent(planId: number, type: GoalType, data: any): string | null {
+  if (type !== 'debt_free' || data.eventId === undefined) {
+    return null;
+  }
+  
+  const event = db.prepare('SELECT * FROM events WHERE id = ? AND plan_id = ?').get(data.eventId, planId) as EventRow | undefined;
+  if (!event || !DEBT_EVENT_TYPES.includes(event.type)) {
+    return 'eventId must reference a mortgage, car loan, PCP, loan, credit card or student loan event of this plan';
+  }
+  return null;
+}
+
+/**
+ * Validate goal data based on goal type
+ */
+function validateGoalData(type: GoalType, data: any): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  
+  switch (type) {
+    case 'savings_target':
+      if (typeof data.amount !== 'number' || !isFinite(data.amount) || data.amount <= 0) {
+        return 'amount must be a positive number';
+      }
+      if (!data.targetDate || !dateRegex.test(data.targetDate)) {
+        return 'targetDate must be in YYYY-MM-DD format';
+      }
+      if (data.measure !== undefined && data.measure !== 'liquidity' && data.measure !== 'net_worth') {
+        return "measure must be 'liquidity' or 'net_worth'";
+      }
+      break;
+      
+    case 'emergency_fund':
+      if (typeof data.months !== 'number' || !isFinite(data.months) || data.months <= 0) {
+        return 'months must be a positive number';
+      }
+      if (data.targetDate !== undefined && !dateRegex.test(data.targetDate)) {
+        return 'targetDate must be in YYYY-MM-DD format';
+      }
+      break;
+      
+    case 'debt_free':
+      if (data.eventId !== undefined && (typeof data.eventId !== 'number' || data.eventId <= 0)) {
+        return 'eventId must be a positive number';
+      }
+      if (data.targetDate !== undefined && !dateRegex.test(data.targetDate)) {
+        return 'targetDate must be in YYYY-MM-DD format';
+      }
+      if (data.dateOfBirth !== undefined && !dateRegex.test(data.dateOfBirth)) {
+        return 'dateOfBirth must be in YYYY-MM-DD format';
+      }
+      if (data.age !== undefined && (typeof data.age !== 'number' || data.age <= 0)) {
+        return 'age must be a positive number';
+      }
+      if ((data.dateOfBirth === undefined) !== (data.age === undefined)) {
+        return 'dateOfBirth and age must be given together';
+      }
+      break;
+  }
+  
+  return null;
+}
+
+export default router;
@@ -2,8 +2,15 @@ import { Router, Request, Response } from 'express';
 import db from '../db/connection';
 import { Plan, PlanRow, rowToPlan, planToRow } from '../models/plan';
 import { ensureUserId } from '../middleware/auth';
-import { FinancialCalculator, ChartDataPoint } from '../services/calculator';
+import { FinancialCalculator, ChartDataPoint, CalculationOptions } from '../services/calculator';
+import { MonteCarloSettings, RateDistribution, DEFAULT_MONTE_CARLO_DISTRIBUTIONS, DEFAULT_MONTE_CARLO_PATHS, getMaxMonteCarloPaths, runMonteCarlo } from '../services/monte-carlo';
+import { analyseProjection } from '../services/insights';
+import { addRealValues } from '../services/real-terms';
 import { Event, EventRow, rowToEvent } from '../models/events';
+import { CurrencySettings, CURRENCY_CODE_PATTERN, findMissingFxRate } from '../services/fx';
+import { GoalSeekSettings, getEventField, runGoalSeek, setEventField } from '../services/goal-seek';
+import { getUserFxRates } from './fx-rates';
+import { validateEventData } from './events';
 
 const router = Router();
 
@@ -37,7 +44,7 @@ router.get('/', (req: Request, res: Response) => {
 router.post('/', (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const { name, startDate } = req.body;
+    const { name, startDate, baseCurrency, inflationRate } = req.body;
     
     // Validate input
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -54,19 +61,43 @@ router.post('/', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Start date must be in YYYY-MM-DD format' });
     }
     
+    if (baseCurrency !== undefined && (typeof baseCurrency !== 'string' || !CURRENCY_CODE_PATTERN.test(baseCurrency))) {
+      return res.status(400).json({ error: 'Base currency must be a three-letter currency code (e.g., GBP)' });
+    }
+    
+    if (inflationRate !== undefined && !isValidInflationRate(inflationRate)) {
+      return res.status(400).json({ error: 'Inflation rate must be a number greater than -1 and at most 1' });
+    }
+    
     const plan: Plan = {
       userId,
       name: name.trim(),
       startDate,
+      openingCash: 0,
+      openingAssets: 0,
+      openingDebts: [],
+      cashSettings: {},
+      baseCurrency: baseCurrency ?? 'GBP',
+      inflationRate: inflationRate ?? 0.02,
     };
     
     const planRow = planToRow(plan);
     
     const stmt = db.prepare(
-      'INSERT INTO plans (user_id, name, start_date) VALUES (?, ?, ?)'
+      'INSERT INTO plans (user_id, name, start_date, opening_cash, opening_assets, opening_debts, cash_settings, base_currency, inflation_rate) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
     );
     
-    const result = stmt.run(planRow.user_id, planRow.name, planRow.start_date);
+    const result = stmt.run(
+      planRow.user_id,
+      planRow.name,
+      planRow.start_date,
+      planRow.opening_cash,
+      planRow.opening_assets,
+      planRow.opening_debts,
+      planRow.cash_settings,
+      planRow.base_currency,
+      planRow.inflation_rate
+    );
     
     // Fetch the created plan
     const createdPlan = db.prepare('SELECT * FROM plans WHERE id = ?').get(result.lastInsertRowid) as PlanRow;
@@ -113,7 +144,7 @@ router.put('/:id', (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const planId = parseInt(req.params.id, 10);
-    const { name, startDate } = req.body;
+    const { name, startDate, openingCash, openingAssets, openingDebts, cashSettings, baseCurrency, inflationRate } = req.body;
     
     if (isNaN(planId)) {
       return res.status(400).json({ error: 'Invalid plan ID' });
@@ -142,6 +173,51 @@ router.put('/:id', (req: Request, res: Response) => {
       }
     }
     
+    if (openingCash !== undefined && (typeof openingCash !== 'number' || !isFinite(openingCash))) {
+      return res.status(400).json({ error: 'Opening cash must be a number' });
+    }
+    
+    if (openingAssets !== undefined && (typeof openingAssets !== 'number' || !isFinite(openingAssets) || openingAssets < 0)) {
+      return res.status(400).json({ error: 'Opening assets must be a non-negative number' });
+    }
+    
+    if (openingDebts !== undefined) {
+      const debtsError = validateOpeningDebts(openingDebts);
+      if (debtsError) {
+        return res.status(400).json({ error: debtsError });
+      }
+      
+      // Opening debts must belong to loans of this plan that were already running on the start date,
+      // a loan starting later takes on its debt in its own start month
+      const debtEventStmt = db.prepare('SELECT * FROM events WHERE id = ? AND plan_id = ?');
+      const planStartDate: string = startDate ?? existingPlan.start_date;
+      for (const debt of openingDebts) {
+        const debtEvent = debtEventStmt.get(debt.eventId, planId) as EventRow | undefined;
+        if (!debtEvent || !['mortgage', 'car_loan', 'loan', 'credit_card'].includes(debtEvent.type)) {
+          return res.status(400).json({ error: 'Opening debts must reference a mortgage, car loan, loan or credit card event of this plan' });
+        }
+        const debtData = rowToEvent(debtEvent).data as { startDate: string };
+        if (debtData.startDate.slice(0, 7) >= planStartDate.slice(0, 7)) {
+          return res.status(400).json({ error: 'Opening debts must reference an event that started before the plan start date' });
+        }
+      }
+    }
+    
+    if (cashSettings !== undefined) {
+      const cashSettingsError = validateCashSettings(cashSettings);
+      if (cashSettingsError) {
+        return res.status(400).json({ error: cashSettingsError });
+      }
+    }
+    
+    if (baseCurrency !== undefined && (typeof baseCurrency !== 'string' || !CURRENCY_CODE_PATTERN.test(baseCurrency))) {
+      return res.status(400).json({ error: 'Base currency must be a three-letter currency code (e.g., GBP)' });
+    }
+    
+    if (inflationRate !== undefined && !isValidInflationRate(inflationRate)) {
+      return res.status(400).json({ error: 'Inflation rate must be a number greater than -1 and at most 1' });
+    }
+    
     // Update plan
     const updates: string[] = [];
     const values: any[] = [];
@@ -156,6 +232,36 @@ router.put('/:id', (req: Request, res: Response) => {
       values.push(startDate);
     }
     
+    if (openingCash !== undefined) {
+      updates.push('opening_cash = ?');
+      values.push(openingCash);
+    }
+    
+    if (openingAssets !== undefined) {
+      updates.push('opening_assets = ?');
+      values.push(openingAssets);
+    }
+    
+    if (openingDebts !== undefined) {
+      updates.push('opening_debts = ?');
+      values.push(JSON.stringify(openingDebts));
+    }
+    
+    if (cashSettings !== undefined) {
+      updates.push('cash_settings = ?');
+      values.push(JSON.stringify(cashSettings));
+    }
+    
+    if (baseCurrency !== undefined) {
+      updates.push('base_currency = ?');
+      values.push(baseCurrency);
+    }
+    
+    if (inflationRate !== undefined) {
+      updates.push('inflation_rate = ?');
+      values.push(inflationRate);
+    }
+    
     if (updates.length === 0) {
       return res.status(400).json({ error: 'No fields to update' });
     }
@@ -213,13 +319,22 @@ router.delete('/:id', (req: Request, res: Response) => {
 /**
  * GET /api/plans/:id/chart-data
  * Get calculated liquidity and assets data for charting
- * Query params: rangeYears (5-20, default 10)
+ * Query params: rangeYears (5-20, default 10), breakdown (true to include each event's monthly contribution),
+ * simulation (monte_carlo to add percentile bands from randomized paths), with for Monte Carlo:
+ * paths (default 200, at most 1000 and fewer for plans with many events or long ranges), seed, and the mean and standard deviation of each rate's yearly deviation
+ * (investmentReturnMean, investmentReturnSd, inflationMean, inflationSd, interestRateMean, interestRateSd)
+ * Amounts are converted into the plan's base currency, returned as currency
+ * mode (nominal or real, default nominal): real adds each month's values in today's money, deflated to the plan
+ * start date by the plan's inflation assumption, alongside the nominal values
  */
 router.get('/:id/chart-data', (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const planId = parseInt(req.params.id, 10);
     const rangeYears = parseInt(req.query.rangeYears as string, 10) || 10;
+    const includeBreakdown = req.query.breakdown === 'true';
+    const simulation = req.query.simulation;
+    const mode = req.query.mode ?? 'nominal';
     
     if (isNaN(planId)) {
       return res.status(400).json({ error: 'Invalid plan ID' });
@@ -230,6 +345,14 @@ router.get('/:id/chart-data', (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Range years must be between 5 and 20' });
     }
     
+    if (simulation !== undefined && simulation !== 'monte_carlo') {
+      return res.status(400).json({ error: 'Simulation must be monte_carlo' });
+    }
+    
+    if (mode !== 'nominal' && mode !== 'real') {
+      return res.status(400).json({ error: 'Mode must be nominal or real' });
+    }
+    
     // Check if plan exists and belongs to user
     const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
     const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
@@ -239,27 +362,388 @@ router.get('/:id/chart-data', (req: Request, res: Response) => {
     }
     
     const plan = rowToPlan(planRow);
+    const fxRateError = getFxRateError(plan);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
     
-    // Fetch all events for this plan
-    const eventsStmt = db.prepare('SELECT * FROM events WHERE plan_id = ? ORDER BY created_at');
-    const eventRows = eventsStmt.all(planId) as EventRow[];
-    
-    const events: Event[] = eventRows.map(rowToEvent);
+    const events = getPlanEvents(plan);
+    const monteCarloSettings = simulation === 'monte_carlo' ? parseMonteCarloSettings(req.query, getMaxMonteCarloPaths(events.length, rangeYears)) : undefined;
+    if (typeof monteCarloSettings === 'string') {
+      return res.status(400).json({ error: monteCarloSettings });
+    }
     
     // Calculate liquidity and assets
-    const calculator = new FinancialCalculator();
-    const chartData: ChartDataPoint[] = calculator.calculateLiquidityAndAssets(
-      events,
-      plan.startDate,
-      rangeYears
-    );
+    const nominalChartData = projectPlan(plan, rangeYears, { includeBreakdown });
+    const chartData = mode === 'real' ? addRealValues(nominalChartData, plan.startDate, plan.inflationRate) : nominalChartData;
+    
+    if (!monteCarloSettings) {
+      return res.json({ chartData, currency: plan.baseCurrency });
+    }
     
-    return res.json({ chartData });
+    const simulationSettings = mode === 'real' ? { ...monteCarloSettings, inflationRate: plan.inflationRate } : monteCarloSettings;
+    const monteCarlo = runMonteCarlo(events, plan.startDate, rangeYears, simulationSettings, getProjectionOptions(plan));
+    
+    return res.json({ chartData, monteCarlo, currency: plan.baseCurrency });
   } catch (error) {
     console.error('Error calculating chart data:', error);
     return res.status(500).json({ error: 'Failed to calculate chart data' });
   }
 });
 
+/**
+ * GET /api/plans/:id/cashflow
+ * Get a monthly cash flow statement: income, expenses, interest paid, principal repaid, deposits, borrowing,
+ * contributions, withdrawals and sale proceeds, which add up to the change in liquidity with cash interest,
+ * and depreciation and investment growth
+ * Query params: rangeYears (5-20, default 10)
+ */
+router.get('/:id/cashflow', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.id, 10);
+    const rangeYears = parseInt(req.query.rangeYears as string, 10) || 10;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Validate rangeYears
+    if (rangeYears < 5 || rangeYears > 20) {
+      return res.status(400).json({ error: 'Range years must be between 5 and 20' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!planRow) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const plan = rowToPlan(planRow);
+    const fxRateError = getFxRateError(plan);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
+    
+    const chartData = projectPlan(plan, rangeYears, { includeCashflow: true });
+    const cashflow = chartData.map((point) => ({ month: point.month, ...point.cashflow! }));
+    
+    return res.json({ cashflow });
+  } catch (error) {
+    console.error('Error calculating cash flow:', error);
+    return res.status(500).json({ error: 'Failed to calculate cash flow' });
+  }
+});
+
+/**
+ * GET /api/plans/:id/insights
+ * Get warnings derived from the projection: months with negative liquidity, the lowest cash point,
+ * peak total debt, runway (months of outgoings covered by cash) and when each loan is paid off
+ * Query params: rangeYears (5-20, default 10)
+ */
+router.get('/:id/insights', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.id, 10);
+    const rangeYears = parseInt(req.query.rangeYears as string, 10) || 10;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Validate rangeYears
+    if (rangeYears < 5 || rangeYears > 20) {
+      return res.status(400).json({ error: 'Range years must be between 5 and 20' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!planRow) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const plan = rowToPlan(planRow);
+    const fxRateError = getFxRateError(plan);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
+    
+    const chartData = projectPlan(plan, rangeYears, { includeCashflow: true });
+    
+    return res.json({ insights: analyseProjection(chartData, getPlanEvents(plan)) });
+  } catch (error) {
+    console.error('Error calculating insights:', error);
+    return res.status(500).json({ error: 'Failed to calculate insights' });
+  }
+});
+
+/**
+ * POST /api/plans/:id/solve
+ * Goal seek: find the highest or lowest value of one numeric field of an event for which the projection
+ * meets a constraint, e.g. the highest purchase price that never takes cash below 5000
+ * Body: eventId, field (dotted for nested fields), min, max, objective (maximize or minimize, default maximize),
+ * constraint ({ type: 'never_below', measure, amount } or { type: 'reach_by', measure, amount, targetDate }),
+ * tolerance (optional), rangeYears (5-20, default 10)
+ * The constraint is assumed to hold on one side of a single value within the bounds
+ */
+router.post('/:id/solve', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.id, 10);
+    const rangeYears = req.body.rangeYears ?? 10;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Validate rangeYears
+    if (!Number.isInteger(rangeYears) || rangeYears < 5 || rangeYears > 20) {
+      return res.status(400).json({ error: 'Range years must be between 5 and 20' });
+    }
+    
+    const validationError = validateGoalSeekSettings(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    // Check if plan exists and belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!planRow) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const plan = rowToPlan(planRow);
+    const fxRateError = getFxRateError(plan);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
+    
+    const settings: GoalSeekSettings = {
+      eventId: req.body.eventId,
+      field: req.body.field,
+      min: req.body.min,
+      max: req.body.max,
+      objective: req.body.objective ?? 'maximize',
+      constraint: req.body.constraint,
+      tolerance: req.body.tolerance,
+    };
+    
+    const events = getPlanEvents(plan);
+    const event = events.find((planEvent) => planEvent.id === settings.eventId);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+    
+    if (getEventField(event, settings.field) === undefined) {
+      return res.status(400).json({ error: `Event has no numeric field ${settings.field}` });
+    }
+    
+    // Both bounds must give valid event data, so every value searched between them is valid too
+    for (const bound of [settings.min, settings.max]) {
+      const boundError = validateEventData(event.type, setEventField(event, settings.field, bound).data);
+      if (boundError) {
+        return res.status(400).json({ error: `Bound ${bound} is invalid: ${boundError}` });
+      }
+    }
+    
+    const solution = runGoalSeek(events, plan.startDate, rangeYears, settings, getProjectionOptions(plan));
+    
+    return res.json({ solution });
+  } catch (error) {
+    console.error('Error solving event field:', error);
+    return res.status(500).json({ error: 'Failed to solve event field' });
+  }
+});
+
+/**
+ * Run the calculator over a plan's events, seeded with the plan's opening balances
+ */
+export function projectPlan(plan: Plan, rangeYears: number, options: CalculationOptions = {}): ChartDataPoint[] {
+  const calculator = new FinancialCalculator();
+  return calculator.calculateLiquidityAndAssets(getPlanEvents(plan), plan.startDate, rangeYears, {
+    ...getProjectionOptions(plan),
+    ...options,
+  });
+}
+
+/**
+ * Calculation options every projection of a plan starts from: its opening balances, cash settings and currency
+ */
+export function getProjectionOptions(plan: Plan): CalculationOptions {
+  return {
+    openingBalances: {
+      liquidity: plan.openingCash,
+      assets: plan.openingAssets,
+      debts: plan.openingDebts,
+    },
+    cashSettings: plan.cashSettings,
+    currency: getCurrencySettings(plan),
+  };
+}
+
+/**
+ * Base currency of a plan and the FX rates of its owner
+ */
+function getCurrencySettings(plan: Plan): CurrencySettings {
+  return {
+    baseCurrency: plan.baseCurrency,
+    fxRates: getUserFxRates(plan.userId),
+  };
+}
+
+/**
+ * Check that every event projected for a plan can be converted into its base currency
+ * @param events Events to check, the plan's own events by default
+ * @returns Error message naming the missing rate, or null
+ */
+export function getFxRateError(plan: Plan, events: Event[] = getPlanEvents(plan)): string | null {
+  const missingCurrency = findMissingFxRate(events, getCurrencySettings(plan));
+  return missingCurrency ? `No FX rate from ${missingCurrency} to ${plan.baseCurrency}` : null;
+}
+
+/**
+ * Fetch all events of a plan in the order the calculator processes them
+ */
+export function getPlanEvents(plan: Plan): Event[] {
+  const eventsStmt = db.prepare('SELECT * FROM events WHERE plan_id = ? ORDER BY created_at');
+  const eventRows = eventsStmt.all(plan.id) as EventRow[];
+  
+  return eventRows.map(rowToEvent);
+}
+
+/**
+ * Parse the Monte Carlo settings of a chart-data request
+ * @param maxPaths Most paths the plan may be simulated with over the requested range
+ * @returns Settings, or an error message when a parameter is invalid
+ */
+function parseMonteCarloSettings(query: Request['query'], maxPaths: number): MonteCarloSettings | string {
+  const paths = query.paths !== undefined ? Number(query.paths) : Math.min(DEFAULT_MONTE_CARLO_PATHS, maxPaths);
+  if (!Number.isInteger(paths) || paths < 1 || paths > maxPaths) {
+    return `Paths must be an integer between 1 and ${maxPaths} for this plan and range`;
+  }
+  
+  const seed = query.seed !== undefined ? Number(query.seed) : undefined;
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+    return 'Seed must be a non-negative integer';
+  }
+  
+  const settings: MonteCarloSettings = { paths, seed };
+  for (const rate of ['investmentReturn', 'inflation', 'interestRate'] as const) {
+    const defaults = DEFAULT_MONTE_CARLO_DISTRIBUTIONS[rate];
+    const distribution: RateDistribution = {
+      mean: query[`${rate}Mean`] !== undefined ? Number(query[`${rate}Mean`]) : defaults.mean,
+      standardDeviation: query[`${rate}Sd`] !== undefined ? Number(query[`${rate}Sd`]) : defaults.standardDeviation,
+    };
+    if (!isFinite(distribution.mean)) {
+      return `${rate}Mean must be a number`;
+    }
+    if (!isFinite(distribution.standardDeviation) || distribution.standardDeviation < 0) {
+      return `${rate}Sd must be a non-negative number`;
+    }
+    settings[rate] = distribution;
+  }
+  
+  return settings;
+}
+
+/**
+ * Check a plan's inflation assumption, an annual rate as decimal
+ */
+function isValidInflationRate(inflationRate: any): boolean {
+  return typeof inflationRate === 'number' && isFinite(inflationRate) && inflationRate > -1 && inflationRate <= 1;
+}
+
+/**
+ * Validate the opening debts of a plan
+ */
+function validateOpeningDebts(openingDebts: any): string | null {
+  if (!Array.isArray(openingDebts)) {
+    return 'Opening debts must be an array';
+  }
+  
+  for (const debt of openingDebts) {
+    if (!debt || typeof debt !== 'object') {
+      return 'Each opening debt must be an object';
+    }
+    if (typeof debt.eventId !== 'number' || debt.eventId <= 0) {
+      return 'Opening debt eventId must be a positive number';
+    }
+    if (typeof debt.balance !== 'number' || !isFinite(debt.balance) || debt.balance < 0) {
+      return 'Opening debt balance must be a non-negative number';
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validate the savings and overdraft interest settings of a plan
+ */
+function validateCashSettings(cashSettings: any): string | null {
+  if (!cashSettings || typeof cashSettings !== 'object' || Array.isArray(cashSettings)) {
+    return 'Cash settings must be an object';
+  }
+  
+  for (const field of ['savingsRate', 'overdraftLimit', 'overdraftRate', 'unarrangedOverdraftRate']) {
+    const value = cashSettings[field];
+    if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+      return `Cash settings ${field} must be a non-negative number`;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validate the event field, bounds, objective and constraint of a goal-seek request
+ */
+function validateGoalSeekSettings(data: any): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  
+  if (typeof data.eventId !== 'number' || data.eventId <= 0) {
+    return 'eventId must be a positive number';
+  }
+  if (typeof data.field !== 'string' || !/^[A-Za-z]+(\.[A-Za-z]+)*$/.test(data.field)) {
+    return 'field must be an event data field name (e.g., purchasePrice or escalation.annualRate)';
+  }
+  if (typeof data.min !== 'number' || !isFinite(data.min) || typeof data.max !== 'number' || !isFinite(data.max)) {
+    return 'min and max must be numbers';
+  }
+  if (data.min > data.max) {
+    return 'min must not be greater than max';
+  }
+  if (data.objective !== undefined && data.objective !== 'maximize' && data.objective !== 'minimize') {
+    return 'objective must be maximize or minimize';
+  }
+  if (data.tolerance !== undefined && (typeof data.tolerance !== 'number' || !isFinite(data.tolerance) || data.tolerance <= 0)) {
+    return 'tolerance must be a positive number';
+  }
+  
+  const constraint = data.constraint;
+  if (!constraint || typeof constraint !== 'object') {
+    return 'constraint must be an object';
+  }
+  if (constraint.type !== 'never_below' && constraint.type !== 'reach_by') {
+    return 'constraint type must be never_below or reach_by';
+  }
+  if (constraint.measure !== 'liquidity' && constraint.measure !== 'net_worth') {
+    return 'constraint measure must be liquidity or net_worth';
+  }
+  if (typeof constraint.amount !== 'number' || !isFinite(constraint.amount)) {
+    return 'constraint amount must be a number';
+  }
+  if (constraint.type === 'reach_by' && (typeof constraint.targetDate !== 'string' || !dateRegex.test(constraint.targetDate))) {
+    return 'constraint targetDate must be in YYYY-MM-DD format';
+  }
+  
+  return null;
+}
+
 export default router;
 
@@ -0,0 +1,351 @@
+import { Router, Request, Response } from 'express';
+import db from '../db/connection';
+import { Event, EventRow, rowToEvent, EVENT_TYPES } from '../models/events';
+import { PlanRow, rowToPlan } from '../models/plan';
+import { Scenario, ScenarioOverrides, ScenarioRow, rowToScenario, scenarioToRow, applyScenarioOverrides } from '../models/scenario';
+import { ensureUserId } from '../middleware/auth';
+import { FinancialCalculator } from '../services/calculator';
+import { validateEventData, isValidEventCurrency } from './events';
+import { getFxRateError, getProjectionOptions } from './plans';
+
+const router = Router();
+
+// Apply userId middleware to all routes
+router.use(ensureUserId);
+
+/**
+ * GET /api/plans/:planId/scenarios
+ * Get all scenarios of a plan
+ */
+router.get('/:planId/scenarios', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const stmt = db.prepare('SELECT * FROM scenarios WHERE plan_id = ? ORDER BY created_at');
+    const rows = stmt.all(planId) as ScenarioRow[];
+    
+    return res.json({ scenarios: rows.map(rowToScenario) });
+  } catch (error) {
+    console.error('Error fetching scenarios:', error);
+    return res.status(500).json({ error: 'Failed to fetch scenarios' });
+  }
+});
+
+/**
+ * GET /api/plans/:planId/scenarios/compare
+ * Get chart data of the base plan and several scenarios, for overlay comparison
+ * Query params: scenarioIds (comma-separated, default all), rangeYears (5-20, default 10)
+ */
+router.get('/:planId/scenarios/compare', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const rangeYears = parseInt(req.query.rangeYears as string, 10) || 10;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Validate rangeYears
+    if (rangeYears < 5 || rangeYears > 20) {
+      return res.status(400).json({ error: 'Range years must be between 5 and 20' });
+    }
+    
+    const scenarioIds = req.query.scenarioIds !== undefined
+      ? String(req.query.scenarioIds).split(',').map((id) => parseInt(id, 10))
+      : undefined;
+    if (scenarioIds?.some((id) => isNaN(id))) {
+      return res.status(400).json({ error: 'Invalid scenario ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const planRow = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!planRow) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    const scenarioRows = db.prepare('SELECT * FROM scenarios WHERE plan_id = ? ORDER BY created_at').all(planId) as ScenarioRow[];
+    const scenarios = scenarioRows.map(rowToScenario);
+    
+    const missingId = scenarioIds?.find((id) => !scenarios.some((scenario) => scenario.id === id));
+    if (missingId !== undefined) {
+      return res.status(404).json({ error: `Scenario ${missingId} not found` });
+    }
+    
+    const plan = rowToPlan(planRow);
+    const events = getPlanEvents(planId);
+    const selected = scenarioIds
+      ? scenarioIds.map((id) => scenarios.find((scenario) => scenario.id === id)!)
+      : scenarios;
+    const scenarioEvents = selected.map((scenario) => applyScenarioOverrides(events, scenario.overrides));
+    
+    const fxRateError = getFxRateError(plan, [...events, ...scenarioEvents.flat()]);
+    if (fxRateError) {
+      return res.status(400).json({ error: fxRateError });
+    }
+    
+    const calculator = new FinancialCalculator();
+    const projectionOptions = getProjectionOptions(plan);
+    const project = (scenarioEvents: Event[]) => calculator.calculateLiquidityAndAssets(scenarioEvents, plan.startDate, rangeYears, projectionOptions);
+    
+    return res.json({
+      scenarios: [
+        { scenarioId: null, name: plan.name, chartData: project(events) },
+        ...selected.map((scenario, index) => ({
+          scenarioId: scenario.id,
+          name: scenario.name,
+          chartData: project(scenarioEvents[index]),
+        })),
+      ],
+      currency: plan.baseCurrency,
+    });
+  } catch (error) {
+    console.error('Error comparing scenarios:', error);
+    return res.status(500).json({ error: 'Failed to compare scenarios' });
+  }
+});
+
+/**
+ * POST /api/plans/:planId/scenarios
+ * Create a new scenario
+ */
+router.post('/:planId/scenarios', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const { name, overrides } = req.body;
+    
+    if (isNaN(planId)) {
+      return res.status(400).json({ error: 'Invalid plan ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ error: 'Scenario name is required' });
+    }
+    
+    const scenarioOverrides: ScenarioOverrides = { added: [], removed: [], modified: [], ...overrides };
+    const validationError = validateScenarioOverrides(scenarioOverrides, getPlanEvents(planId));
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    const scenario: Scenario = {
+      planId,
+      name: name.trim(),
+      overrides: scenarioOverrides,
+    };
+    
+    const scenarioRow = scenarioToRow(scenario);
+    
+    const stmt = db.prepare('INSERT INTO scenarios (plan_id, name, overrides) VALUES (?, ?, ?)');
+    const result = stmt.run(scenarioRow.plan_id, scenarioRow.name, scenarioRow.overrides);
+    
+    // Fetch the created scenario
+    const createdScenario = db.prepare('SELECT * FROM scenarios WHERE id = ?').get(result.lastInsertRowid) as ScenarioRow;
+    
+    return res.status(201).json({ scenario: rowToScenario(createdScenario) });
+  } catch (error) {
+    console.error('Error creating scenario:', error);
+    return res.status(500).json({ error: 'Failed to create scenario' });
+  }
+});
+
+/**
+ * PUT /api/plans/:planId/scenarios/:scenarioId
+ * Update a scenario's name or overrides
+ */
+router.put('/:planId/scenarios/:scenarioId', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const scenarioId = parseInt(req.params.scenarioId, 10);
+    const { name, overrides } = req.body;
+    
+    if (isNaN(planId) || isNaN(scenarioId)) {
+      return res.status(400).json({ error: 'Invalid plan ID or scenario ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    // Verify scenario belongs to plan
+    const scenarioStmt = db.prepare('SELECT * FROM scenarios WHERE id = ? AND plan_id = ?');
+    const existingScenario = scenarioStmt.get(scenarioId, planId) as ScenarioRow | undefined;
+    
+    if (!existingScenario) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+    
+    const updates: string[] = [];
+    const values: any[] = [];
+    
+    if (name !== undefined) {
+      if (typeof name !== 'string' || name.trim().length === 0) {
+        return res.status(400).json({ error: 'Scenario name must be a non-empty string' });
+      }
+      updates.push('name = ?');
+      values.push(name.trim());
+    }
+    
+    if (overrides !== undefined) {
+      const scenarioOverrides: ScenarioOverrides = { added: [], removed: [], modified: [], ...overrides };
+      const validationError = validateScenarioOverrides(scenarioOverrides, getPlanEvents(planId));
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      updates.push('overrides = ?');
+      values.push(JSON.stringify(scenarioOverrides));
+    }
+    
+    if (updates.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+    
+    values.push(scenarioId, planId);
+    
+    const updateStmt = db.prepare(
+      `UPDATE scenarios SET ${updates.join(', ')} WHERE id = ? AND plan_id = ?`
+    );
+    
+    updateStmt.run(...values);
+    
+    // Fetch updated scenario
+    const updatedScenario = db.prepare('SELECT * FROM scenarios WHERE id = ?').get(scenarioId) as ScenarioRow;
+    
+    return res.json({ scenario: rowToScenario(updatedScenario) });
+  } catch (error) {
+    console.error('Error updating scenario:', error);
+    return res.status(500).json({ error: 'Failed to update scenario' });
+  }
+});
+
+/**
+ * DELETE /api/plans/:planId/scenarios/:scenarioId
+ * Delete a scenario
+ */
+router.delete('/:planId/scenarios/:scenarioId', (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const planId = parseInt(req.params.planId, 10);
+    const scenarioId = parseInt(req.params.scenarioId, 10);
+    
+    if (isNaN(planId) || isNaN(scenarioId)) {
+      return res.status(400).json({ error: 'Invalid plan ID or scenario ID' });
+    }
+    
+    // Verify plan belongs to user
+    const planStmt = db.prepare('SELECT * FROM plans WHERE id = ? AND user_id = ?');
+    const plan = planStmt.get(planId, userId) as PlanRow | undefined;
+    
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    
+    // Verify scenario belongs to plan
+    const scenarioStmt = db.prepare('SELECT * FROM scenarios WHERE id = ? AND plan_id = ?');
+    const existingScenario = scenarioStmt.get(scenarioId, planId) as ScenarioRow | undefined;
+    
+    if (!existingScenario) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+    
+    db.prepare('DELETE FROM scenarios WHERE id = ? AND plan_id = ?').run(scenarioId, planId);
+    
+    return res.json({ message: 'Scenario deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return res.status(500).json({ error: 'Failed to delete scenario' });
+  }
+});
+
+/**
+ * Fetch all events of a plan in the order the calculator processes them
+ */
+function getPlanEvents(planId: number): Event[] {
+  const eventsStmt = db.prepare('SELECT * FROM events WHERE plan_id = ? ORDER BY created_at');
+  const eventRows = eventsStmt.all(planId) as EventRow[];
+  
+  return eventRows.map(rowToEvent);
+}
+
+/**
+ * Validate the overrides of a scenario against the plan's events
+ */
+function validateScenarioOverrides(overrides: ScenarioOverrides, events: Event[]): string | null {
+  const { added, removed, modified } = overrides;
+  
+  if (!Array.isArray(added) || !Array.isArray(removed) || !Array.isArray(modified)) {
+    return 'Overrides added, removed and modified must be arrays';
+  }
+  
+  for (const event of added) {
+    if (!event || !EVENT_TYPES.includes(event.type)) {
+      return 'Added event has an invalid event type';
+    }
+    if (!event.data || typeof event.data !== 'object') {
+      return 'Added event data is required';
+    }
+    const validationError = validateEventData(event.type, event.data);
+    if (validationError) {
+      return `Added event: ${validationError}`;
+    }
+    if (event.currency !== undefined && (event.currency === null || !isValidEventCurrency(event.currency))) {
+      return 'Added event currency must be a three-letter currency code (e.g., EUR)';
+    }
+  }
+  
+  for (const eventId of removed) {
+    if (!events.some((event) => event.id === eventId)) {
+      return `Removed event ${eventId} does not belong to the plan`;
+    }
+  }
+  
+  for (const modification of modified) {
+    const event = events.find((planEvent) => planEvent.id === modification?.eventId);
+    if (!event) {
+      return `Modified event ${modification?.eventId} does not belong to the plan`;
+    }
+    if (!modification.data || typeof modification.data !== 'object') {
+      return 'Modified event data is required';
+    }
+    const validationError = validateEventData(event.type, modification.data);
+    if (validationError) {
+      return `Modified event ${event.id}: ${validationError}`;
+    }
+    if (modification.currency !== undefined && (modification.currency === null || !isValidEventCurrency(modification.currency))) {
+      return `Modified event ${event.id}: currency must be a three-letter currency code (e.g., EUR)`;
+    }
+  }
+  
+  return null;
+}
+
+export default router;
@@ -4,8 +4,8 @@
 
 import { expect } from 'chai';
 import { describe, it } from 'mocha';
-import { FinancialCalculator } from './calculator';
-import { IncomeEvent, ExpenseEvent, MortgageEvent } from '../models/events';
+import { FinancialCalculator, calculateAmortizedBalance, calculateAmortizedPayment, depreciateCarValue } from './calculator';
+import { Event, IncomeEvent, ExpenseEvent, MortgageEvent, MortgageRepaymentEvent, PropertySaleEvent, PCPEvent, CarLoanEvent, InvestmentEvent, PensionEvent, LoanEvent, CreditCardEvent, StudentLoanEvent } from '../models/events';
 
 describe('FinancialCalculator', () => {
   let calculator: FinancialCalculator;
@@ -158,11 +158,11 @@ describe('FinancialCalculator', () => {
       const deposit = 300000 - 270000; // 30000
       expect(result[0].assets).to.equal(deposit);
       
-      // Liquidity should be 0 in first month (only deposit added to assets)
-      expect(result[0].liquidity).to.equal(0);
+      // The deposit is paid from liquidity in the first month
+      expect(result[0].liquidity).to.equal(-deposit);
       
-      // Second month should have negative liquidity (monthly payment) and increased assets (principal repaid)
-      expect(result[1].liquidity).to.be.lessThan(0);
+      // Second month should have lower liquidity (monthly payment) and increased assets (principal repaid)
+      expect(result[1].liquidity).to.be.lessThan(-deposit);
       expect(result[1].assets).to.be.greaterThan(deposit);
     });
 
@@ -283,6 +283,1742 @@ describe('FinancialCalculator', () => {
       // June (month 6, index 5) should have the income
       expect(result[5].liquidity).to.equal(5000);
     });
+
+    it('should start from opening cash and assets', () => {
+      const planStartDate = '2025-01-01';
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'expense' as const,
+          data: {
+            amount: 1000,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-01-01',
+          },
+        } as ExpenseEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, planStartDate, 1, {
+        openingBalances: { liquidity: 20000, assets: 50000, debts: [] },
+      });
+
+      expect(result[0].liquidity).to.equal(19000);
+      expect(result[0].assets).to.equal(50000);
+      expect(result[11].liquidity).to.equal(8000);
+    });
+
+    it('should seed a running mortgage with its opening balance', () => {
+      const planStartDate = '2025-01-01';
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'mortgage' as const,
+          data: {
+            startDate: '2018-01-01', // 7 years in on the plan start date
+            purchasePrice: 300000,
+            loanedAmount: 240000,
+            interestRate: 0.05,
+            repaymentPercentage: 1.0,
+            years: 25,
+          },
+        } as MortgageEvent,
+      ];
+
+      const seeded = calculator.calculateLiquidityAndAssets(events, planStartDate, 1, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 190000 }] },
+      });
+      const unseeded = calculator.calculateLiquidityAndAssets(events, planStartDate, 1);
+
+      // Same scheduled payment, but less interest on the lower balance means more principal repaid
+      expect(seeded[0].liquidity).to.equal(unseeded[0].liquidity);
+      expect(seeded[0].assets).to.be.greaterThan(unseeded[0].assets);
+
+      const monthlyRate = 0.05 / 12;
+      const payment = 240000 * (monthlyRate * Math.pow(1 + monthlyRate, 300)) / (Math.pow(1 + monthlyRate, 300) - 1);
+      expect(seeded[0].assets).to.be.closeTo(-190000 + payment - 190000 * monthlyRate, 0.01);
+    });
+
+    it('should seed a running car loan with its opening balance', () => {
+      const planStartDate = '2025-01-01';
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'car_loan' as const,
+          data: {
+            startDate: '2024-01-01',
+            purchasePrice: 20000,
+            deposit: 2000,
+            years: 5,
+            interestRate: 0.06,
+          },
+        } as CarLoanEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, planStartDate, 1, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 15000 }] },
+      });
+
+      const monthlyRate = 0.06 / 12;
+      const payment = 18000 * (monthlyRate * Math.pow(1 + monthlyRate, 60)) / (Math.pow(1 + monthlyRate, 60) - 1);
+      const principal = payment - 15000 * monthlyRate;
+      const depreciation = 20000 * 0.02; // Still in the first two years
+      const carValue = 18000 - 11 * depreciation; // Depreciated since the purchase month
+
+      expect(result[0].liquidity).to.be.closeTo(-payment, 0.01);
+      expect(result[0].assets).to.be.closeTo(carValue - 15000 + principal - depreciation, 0.01);
+      expect(result[0].grossAssets).to.be.closeTo(carValue - depreciation, 0.01);
+      expect(result[0].netWorth).to.be.closeTo(result[0].liquidity + result[0].grossAssets - result[0].totalLiabilities, 0.02);
+    });
+
+    it('should hold a car already on PCP finance against the finance still owed', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'pcp' as const,
+          data: {
+            startDate: '2024-01-01',
+            purchasePrice: 30000,
+            deposit: 3000,
+            years: 2,
+            residualValue: 12000,
+            interestRate: 0.06,
+            endOfTerm: { option: 'pay_balloon' as const },
+          },
+        } as PCPEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+
+      // 27000 depreciating 600 a month, with twelve of the 24 payments made by the end of the first month
+      expect(result[0].grossAssets).to.be.closeTo(27000 - 12 * 600, 0.01);
+      expect(result[0].assets).to.be.closeTo(result[0].grossAssets - calculateAmortizedBalance(15000, 0.06, 24, 12) - 12000, 0.01);
+      for (const point of result) {
+        expect(point.netWorth).to.be.closeTo(point.liquidity + point.grossAssets - point.totalLiabilities, 0.02);
+      }
+    });
   });
-});
 
+  describe('investment events', () => {
+    const investment = (data: Partial<InvestmentEvent['data']>): InvestmentEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'investment',
+      data: {
+        startDate: '2025-01-01',
+        openingBalance: 0,
+        contributions: [],
+        annualGrowthRate: 0,
+        ...data,
+      },
+    });
+
+    it('should move the opening balance and contributions from liquidity into assets', () => {
+      const events = [investment({ openingBalance: 10000, contributions: [{ startDate: '2025-01-01', amount: 500 }] })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[0].liquidity).to.equal(-10500);
+      expect(result[0].assets).to.equal(10500);
+      expect(result[11].liquidity).to.equal(-16000);
+      expect(result[11].assets).to.equal(16000);
+    });
+
+    it('should compound growth monthly', () => {
+      const events = [investment({ openingBalance: 10000, annualGrowthRate: 0.06 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+
+      // Twelve months of growth after the opening month equal one year at the annual rate
+      expect(result[12].assets).to.be.closeTo(10600, 0.01);
+      expect(result[12].liquidity).to.equal(-10000);
+    });
+
+    it('should apply the latest contribution schedule entry', () => {
+      const events = [investment({
+        contributions: [
+          { startDate: '2025-07-01', amount: 200 },
+          { startDate: '2025-01-01', amount: 100 },
+        ],
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[5].assets).to.equal(600);
+      expect(result[6].assets).to.equal(800);
+    });
+
+    it('should treat an account opened before the plan start as an existing holding', () => {
+      const events = [investment({ startDate: '2020-04-01', openingBalance: 25000 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[0].liquidity).to.equal(0);
+      expect(result[0].assets).to.equal(25000);
+    });
+
+    it('should cap withdrawals at the balance and close the account on the end date', () => {
+      const events = [investment({
+        openingBalance: 5000,
+        withdrawals: [{ date: '2025-03-15', amount: 8000 }],
+      }), investment({
+        openingBalance: 3000,
+        endDate: '2025-06-01',
+      })].map((event, index) => ({ ...event, id: index + 1 }));
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[2].liquidity).to.equal(-3000);
+      expect(result[2].assets).to.equal(3000);
+      expect(result[5].liquidity).to.equal(0);
+      expect(result[5].assets).to.equal(0);
+      expect(result[11].assets).to.equal(0);
+    });
+  });
+
+  describe('escalation of recurring amounts', () => {
+    it('should increase a recurring expense on each anniversary', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'expense' as const,
+          data: {
+            amount: 2000,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-03-01',
+            escalation: { annualRate: 0.04, applyOn: 'anniversary' as const },
+          },
+        } as ExpenseEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 3);
+
+      // February 2026 is still the first rental year, March 2026 is the first anniversary
+      expect(result[13].liquidity - result[12].liquidity).to.equal(-2000);
+      expect(result[14].liquidity - result[13].liquidity).to.equal(-2080);
+      expect(result[26].liquidity - result[25].liquidity).to.be.closeTo(-2163.2, 0.01);
+    });
+
+    it('should increase a recurring income every January', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: {
+            amount: 3000,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-09-01',
+            escalation: { annualRate: 0.05, applyOn: 'january' as const },
+          },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+
+      expect(result[11].liquidity - result[10].liquidity).to.equal(3000);
+      expect(result[12].liquidity - result[11].liquidity).to.equal(3150);
+    });
+
+    it('should leave amounts flat without escalation', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: {
+            amount: 3000,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-01-01',
+          },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 5);
+
+      expect(result[59].liquidity - result[58].liquidity).to.equal(3000);
+    });
+  });
+
+  describe('gross salary income', () => {
+    it('should convert gross salary to take-home pay', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: {
+            amount: 5000,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-04-01',
+            grossSalary: { jurisdiction: 'uk' },
+          },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+
+      // £60,000 a year: £11,432 income tax and £3,210.60 National Insurance
+      expect(result[0].liquidity).to.be.closeTo((60000 - 11432 - 3210.6) / 12, 0.01);
+    });
+
+    it('should tax the raised salary after escalation', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: {
+            amount: 2500,
+            isRecurrent: true,
+            months: [],
+            startDate: '2025-04-01',
+            escalation: { annualRate: 1, applyOn: 'anniversary' as const },
+            grossSalary: { jurisdiction: 'uk' },
+          },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 2);
+
+      // Doubling to £60,000 pushes pay into the higher rate band
+      expect(result[12].liquidity - result[11].liquidity).to.be.closeTo((60000 - 11432 - 3210.6) / 12, 0.01);
+    });
+
+    it('should tax a one-off bonus on what it pays in the tax year', () => {
+      const bonus: IncomeEvent = {
+        id: 1,
+        planId: 1,
+        type: 'income',
+        data: { amount: 20000, isRecurrent: false, months: [], startDate: '2025-06-01', grossSalary: { jurisdiction: 'uk' } },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([bonus], '2025-04-01', 1);
+
+      // £20,000 in the year: £1,486 income tax and £594.40 National Insurance
+      expect(result[2].liquidity).to.be.closeTo(20000 - 1486 - 594.4, 0.01);
+    });
+
+    it('should tax pay received in some months on the months it is paid', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: {
+            amount: 15000,
+            isRecurrent: true,
+            months: [3, 9],
+            startDate: '2025-04-01',
+            grossSalary: { jurisdiction: 'uk' },
+          },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+
+      // £30,000 in the year: £3,486 income tax and £1,394.40 National Insurance
+      expect(result[5].liquidity).to.be.closeTo((30000 - 3486 - 1394.4) / 2, 0.01);
+      expect(result[11].liquidity).to.be.closeTo(30000 - 3486 - 1394.4, 0.01);
+    });
+
+    it('should tax a salary starting mid-year on the pay received in that tax year', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'income' as const,
+          data: { amount: 5000, isRecurrent: true, months: [], startDate: '2025-10-01', grossSalary: { jurisdiction: 'uk' } },
+        } as IncomeEvent,
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-10-01', 1);
+
+      // Six months of £5,000 before April 2026, then a full year
+      expect(result[0].liquidity).to.be.closeTo((30000 - 3486 - 1394.4) / 6, 0.01);
+      expect(result[6].liquidity - result[5].liquidity).to.be.closeTo((60000 - 11432 - 3210.6) / 12, 0.01);
+    });
+  });
+
+  describe('pension events', () => {
+    const salary: IncomeEvent = {
+      id: 1,
+      planId: 1,
+      type: 'income',
+      data: {
+        amount: 5000,
+        isRecurrent: true,
+        months: [],
+        startDate: '2025-04-01',
+        grossSalary: { jurisdiction: 'uk' },
+      },
+    };
+
+    const pension = (data: Partial<PensionEvent['data']>): PensionEvent => ({
+      id: 2,
+      planId: 1,
+      type: 'pension',
+      data: {
+        incomeEventId: 1,
+        openingBalance: 0,
+        employeeContributionRate: 0,
+        employerContributionRate: 0,
+        taxReliefRate: 0,
+        annualGrowthRate: 0,
+        accessDate: '2050-01-01',
+        ...data,
+      },
+    });
+
+    it('should build the pot from employee, employer and tax relief contributions', () => {
+      const events = [salary, pension({
+        openingBalance: 10000,
+        employeeContributionRate: 0.05,
+        employerContributionRate: 0.03,
+        taxReliefRate: 0.25,
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+      const netPay = (60000 - 11432 - 3210.6) / 12;
+
+      expect(result[0].assets).to.be.closeTo(10000 + 250 + 62.5 + 150, 0.01);
+      expect(result[0].liquidity).to.be.closeTo(netPay - 250, 0.01);
+    });
+
+    it('should pay salary sacrifice into the pot without a further liquidity cost', () => {
+      const sacrificedSalary = { ...salary, data: { ...salary.data, grossSalary: { jurisdiction: 'uk', salarySacrificeRate: 0.05 } } };
+      const events = [sacrificedSalary, pension({})];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+
+      expect(result[0].assets).to.be.closeTo(250, 0.01);
+      expect(result[0].liquidity).to.be.closeTo(43617.4 / 12, 0.01);
+    });
+
+    it('should stop contributions and pay drawdown income from the access date', () => {
+      const events = [salary, pension({
+        openingBalance: 2500,
+        employerContributionRate: 0.1,
+        accessDate: '2025-06-01',
+        drawdown: { monthlyAmount: 1000 },
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+      const netPay = (60000 - 11432 - 3210.6) / 12;
+
+      expect(result[1].assets).to.be.closeTo(3500, 0.01);
+      expect(result[2].assets).to.be.closeTo(2500, 0.01);
+      expect(result[2].liquidity).to.be.closeTo(netPay * 3 + 1000, 0.01);
+
+      // Pot runs out part-way through the fourth drawdown month
+      expect(result[5].assets).to.equal(0);
+      expect(result[6].liquidity - result[5].liquidity).to.be.closeTo(netPay, 0.01);
+    });
+
+    it('should tax drawdown on the amount planned across the tax year', () => {
+      const events = [pension({
+        incomeEventId: undefined,
+        openingBalance: 500000,
+        accessDate: '2025-04-01',
+        drawdown: { monthlyAmount: 4000 },
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-04-01', 1);
+
+      // 25% of £48,000 is tax-free, the rest is taxed at the basic rate above the personal allowance
+      expect(result[0].liquidity).to.be.closeTo((48000 - (36000 - 12570) * 0.2) / 12, 0.01);
+      expect(result[0].assets).to.be.closeTo(500000 - 4000, 0.01);
+    });
+
+    it('should not start drawdown before the access date', () => {
+      const events = [pension({
+        incomeEventId: undefined,
+        openingBalance: 12000,
+        accessDate: '2025-06-01',
+        drawdown: { startDate: '2025-01-01', monthlyAmount: 500 },
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[4].liquidity).to.equal(0);
+      expect(result[5].liquidity).to.equal(500);
+    });
+
+    it('should derive the access date from date of birth and access age', () => {
+      const events = [pension({
+        incomeEventId: undefined,
+        openingBalance: 12000,
+        accessDate: undefined,
+        dateOfBirth: '1968-07-15',
+        accessAge: 57,
+        drawdown: { monthlyAmount: 500 },
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[5].liquidity).to.equal(0);
+      expect(result[6].liquidity).to.equal(500);
+    });
+
+    it('should compound the pot monthly', () => {
+      const events = [pension({ incomeEventId: undefined, openingBalance: 100000, annualGrowthRate: 0.05 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+
+      expect(result[12].assets).to.be.closeTo(105000, 0.01);
+    });
+  });
+
+  describe('property value', () => {
+    const mortgage = (data: Partial<MortgageEvent['data']>): MortgageEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'mortgage',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 300000,
+        loanedAmount: 270000,
+        interestRate: 0.05,
+        repaymentPercentage: 1.0,
+        years: 25,
+        ...data,
+      },
+    });
+
+    it('should add house price growth to assets', () => {
+      const flat = calculator.calculateLiquidityAndAssets([mortgage({})], '2025-01-01', 2);
+      const growing = calculator.calculateLiquidityAndAssets([mortgage({ appreciationRate: 0.03 })], '2025-01-01', 2);
+
+      expect(growing[0].assets).to.equal(30000);
+      expect(growing[12].assets - flat[12].assets).to.be.closeTo(9000, 0.01);
+      expect(growing[12].liquidity).to.equal(flat[12].liquidity);
+    });
+
+    it('should report equity for a property owned before the plan start', () => {
+      const events = [mortgage({ startDate: '2018-01-01', loanedAmount: 240000, propertyValue: 350000 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 190000 }] },
+      });
+
+      const monthlyRate = 0.05 / 12;
+      const payment = 240000 * (monthlyRate * Math.pow(1 + monthlyRate, 300)) / (Math.pow(1 + monthlyRate, 300) - 1);
+      const principal = payment - 190000 * monthlyRate;
+
+      expect(result[0].assets).to.be.closeTo(350000 - 190000 + principal, 0.01);
+    });
+
+    it('should include the interest-only part of the loan in the opening equity', () => {
+      const events = [mortgage({ startDate: '2018-01-01', loanedAmount: 200000, repaymentPercentage: 0, propertyValue: 320000 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+
+      expect(result[0].assets).to.be.closeTo(120000, 0.01);
+    });
+
+    it('should keep appreciating after the mortgage is paid off', () => {
+      const events = [mortgage({ startDate: '2005-01-01', years: 15, propertyValue: 200000, appreciationRate: 0.06 })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+
+      expect(result[0].assets).to.be.closeTo(200000, 0.01);
+      expect(result[12].assets - result[0].assets).to.be.closeTo(12000, 0.01);
+      expect(result[12].liquidity).to.equal(0);
+    });
+  });
+
+  describe('calculateAmortizedPayment', () => {
+    it('should split a 0% loan into equal payments', () => {
+      expect(calculateAmortizedPayment(12000, 0, 24)).to.equal(500);
+    });
+
+    it('should repay the principal with interest', () => {
+      expect(calculateAmortizedPayment(100000, 0.06, 360)).to.be.closeTo(599.55, 0.01);
+    });
+  });
+
+  describe('mortgage rate schedules', () => {
+    const mortgage = (data: Partial<MortgageEvent['data']>): MortgageEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'mortgage',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 250000,
+        loanedAmount: 200000,
+        interestRate: 0.07, // Standard variable rate after the fix
+        repaymentPercentage: 1.0,
+        years: 25,
+        ...data,
+      },
+    });
+
+    const monthlyPayments = (result: { liquidity: number }[]) =>
+      result.slice(1).map((point, index) => result[index].liquidity - point.liquidity);
+
+    it('should pay the fixed rate during the fix and re-amortise at reversion', () => {
+      const events = [mortgage({ rateSchedule: [{ startDate: '2025-01-01', endDate: '2027-01-01', rate: 0.04 }] })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 3);
+      const payments = monthlyPayments(result);
+
+      const fixedPayment = calculateAmortizedPayment(200000, 0.04, 300);
+      expect(payments[0]).to.be.closeTo(fixedPayment, 0.01);
+      expect(payments[22]).to.be.closeTo(fixedPayment, 0.01);
+
+      // January 2027: 276 payments remain on the outstanding balance at the reversion rate
+      let balance = 200000;
+      for (let i = 0; i < 23; i++) {
+        balance -= fixedPayment - balance * 0.04 / 12;
+      }
+      const reversionPayment = calculateAmortizedPayment(balance, 0.07, 277);
+      expect(payments[23]).to.be.closeTo(reversionPayment, 0.01);
+      expect(reversionPayment).to.be.greaterThan(fixedPayment);
+    });
+
+    it('should match the unscheduled payment when no product applies', () => {
+      const scheduled = calculator.calculateLiquidityAndAssets(
+        [mortgage({ rateSchedule: [{ startDate: '2040-01-01', rate: 0.03 }] })], '2025-01-01', 2
+      );
+      const unscheduled = calculator.calculateLiquidityAndAssets([mortgage({})], '2025-01-01', 2);
+
+      expect(scheduled[23].liquidity).to.be.closeTo(unscheduled[23].liquidity, 0.01);
+    });
+
+    it('should charge product fees when a product starts', () => {
+      const events = [mortgage({
+        rateSchedule: [
+          { startDate: '2025-01-01', endDate: '2027-01-01', rate: 0.04, productFee: 999 },
+          { startDate: '2027-01-01', endDate: '2032-01-01', rate: 0.045, productFee: 1499 },
+        ],
+      })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 3);
+      const payments = monthlyPayments(result);
+
+      expect(result[0].liquidity).to.equal(-50000 - 999);
+      expect(payments[23] - payments[24]).to.be.closeTo(1499, 1);
+    });
+  });
+
+  describe('mortgage overpayments', () => {
+    const mortgage = (data: Partial<MortgageEvent['data']>): MortgageEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'mortgage',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 250000,
+        loanedAmount: 200000,
+        interestRate: 0.04,
+        repaymentPercentage: 1.0,
+        years: 25,
+        ...data,
+      },
+    });
+
+    const overpayment = (data: Partial<MortgageRepaymentEvent['data']>): MortgageRepaymentEvent => ({
+      id: 2,
+      planId: 1,
+      type: 'mortgage_repayment',
+      data: {
+        mortgageEventId: 1,
+        date: '2025-06-01',
+        amount: 10000,
+        ...data,
+      },
+    });
+
+    const monthlyOutflows = (result: { liquidity: number }[]) =>
+      result.slice(1).map((point, index) => result[index].liquidity - point.liquidity);
+
+    it('should repeat a recurring overpayment until its end date', () => {
+      const events = [mortgage({}), overpayment({ amount: 200, frequencyMonths: 1, endDate: '2025-09-01' })];
+
+      const withOverpayments = monthlyOutflows(calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1));
+      const withoutOverpayments = monthlyOutflows(calculator.calculateLiquidityAndAssets([mortgage({})], '2025-01-01', 1));
+
+      expect(withOverpayments[3] - withoutOverpayments[3]).to.be.closeTo(0, 0.01);
+      expect(withOverpayments[4] - withoutOverpayments[4]).to.be.closeTo(200, 0.01);
+      expect(withOverpayments[7] - withoutOverpayments[7]).to.be.closeTo(200, 0.01);
+      expect(withOverpayments[8] - withoutOverpayments[8]).to.be.closeTo(0, 0.01);
+    });
+
+    it('should keep the payment and stop once the mortgage is repaid in reduce-term mode', () => {
+      const events = [
+        mortgage({ loanedAmount: 20000, years: 5 }),
+        overpayment({ date: '2025-02-01', amount: 2000, frequencyMonths: 1 }),
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+      const outflows = monthlyOutflows(result);
+
+      expect(outflows[0]).to.be.closeTo(calculateAmortizedPayment(20000, 0.04, 60) + 2000, 0.01);
+
+      // Repaid within the first year, after which nothing more is paid
+      expect(outflows[15]).to.equal(0);
+      expect(result[23].assets).to.be.closeTo(250000, 0.01);
+    });
+
+    it('should lower the payment over the remaining term in reduce-payment mode', () => {
+      const events = [mortgage({}), overpayment({ date: '2026-01-01', amount: 50000, mode: 'reduce_payment' })];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+      const outflows = monthlyOutflows(result);
+
+      const originalPayment = calculateAmortizedPayment(200000, 0.04, 300);
+      expect(outflows[10]).to.be.closeTo(originalPayment, 0.01);
+
+      let balance = 200000;
+      for (let i = 0; i < 12; i++) {
+        balance -= originalPayment - balance * 0.04 / 12;
+      }
+      const reducedPayment = calculateAmortizedPayment(balance - 50000, 0.04, 288);
+      expect(outflows[12]).to.be.closeTo(reducedPayment, 0.01);
+    });
+
+    it('should charge early repayment charges above the annual allowance', () => {
+      const events = [
+        mortgage({ earlyRepaymentCharge: { allowanceRate: 0.1, chargeRate: 0.03, endDate: '2027-01-01' } }),
+        overpayment({ date: '2025-06-01', amount: 30000 }),
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1);
+      const outflows = monthlyOutflows(result);
+      const payment = calculateAmortizedPayment(200000, 0.04, 300);
+
+      // 10% of the £200,000 opening balance is free, the remaining £10,000 is charged at 3%
+      expect(outflows[4]).to.be.closeTo(payment + 30000 + 300, 0.01);
+    });
+
+    it('should share the allowance across a mortgage year and stop charging after the end date', () => {
+      const events = [
+        mortgage({ earlyRepaymentCharge: { allowanceRate: 0.1, chargeRate: 0.03, endDate: '2026-01-01' } }),
+        overpayment({ date: '2025-03-01', amount: 15000, frequencyMonths: 6 }),
+      ];
+
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2);
+      const outflows = monthlyOutflows(result);
+      const payment = calculateAmortizedPayment(200000, 0.04, 300);
+
+      expect(outflows[1]).to.be.closeTo(payment + 15000, 0.01);
+      expect(outflows[7]).to.be.closeTo(payment + 15000 + 10000 * 0.03, 0.01);
+      expect(outflows[13]).to.be.closeTo(payment + 15000, 0.01);
+    });
+  });
+
+  describe('property sales', () => {
+    const mortgage: MortgageEvent = {
+      id: 1,
+      planId: 1,
+      type: 'mortgage',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 300000,
+        loanedAmount: 270000,
+        interestRate: 0.05,
+        repaymentPercentage: 1.0,
+        years: 25,
+        appreciationRate: 0.02,
+      },
+    };
+
+    const sale = (data: Partial<PropertySaleEvent['data']>): PropertySaleEvent => ({
+      id: 2,
+      planId: 1,
+      type: 'property_sale',
+      data: {
+        mortgageEventId: 1,
+        date: '2027-01-01',
+        salePrice: 330000,
+        sellingCosts: 5000,
+        ...data,
+      },
+    });
+
+    it('should redeem the mortgage and credit the net proceeds to liquidity', () => {
+      const unsold = calculator.calculateLiquidityAndAssets([mortgage], '2025-01-01', 3);
+      const sold = calculator.calculateLiquidityAndAssets([mortgage, sale({})], '2025-01-01', 3);
+
+      // Equity before the sale is the property value less the outstanding balance
+      const propertyValue = 300000 * Math.pow(1.02, 2);
+      const equity = unsold[24].assets;
+      const outstanding = propertyValue - equity;
+
+      expect(sold[24].assets).to.be.closeTo(0, 0.01);
+      expect(sold[24].liquidity - unsold[24].liquidity).to.be.closeTo(330000 - 5000 - outstanding, 0.01);
+    });
+
+    it('should stop mortgage payments after the sale', () => {
+      const result = calculator.calculateLiquidityAndAssets([mortgage, sale({})], '2025-01-01', 3);
+
+      expect(result[35].liquidity).to.equal(result[24].liquidity);
+      expect(result[35].assets).to.equal(0);
+    });
+
+    it('should charge an early repayment charge when redeeming during the ERC period', () => {
+      const chargedMortgage: MortgageEvent = {
+        ...mortgage,
+        data: { ...mortgage.data, earlyRepaymentCharge: { allowanceRate: 0.1, chargeRate: 0.02, endDate: '2030-01-01' } },
+      };
+
+      const free = calculator.calculateLiquidityAndAssets([mortgage, sale({})], '2025-01-01', 3);
+      const charged = calculator.calculateLiquidityAndAssets([chargedMortgage, sale({})], '2025-01-01', 3);
+
+      // January 2027 starts a mortgage year: 10% of the balance before that month's payment is free
+      const payment = calculateAmortizedPayment(270000, 0.05, 300);
+      const balances = [270000];
+      for (let i = 1; i <= 24; i++) {
+        balances.push(balances[i - 1] - (payment - balances[i - 1] * 0.05 / 12));
+      }
+      const expectedCharge = (balances[24] - balances[23] * 0.1) * 0.02;
+
+      expect(free[24].liquidity - charged[24].liquidity).to.be.closeTo(expectedCharge, 0.01);
+    });
+
+    it('should only remove equity that was added for a property owned before the plan start', () => {
+      const owned: MortgageEvent = { ...mortgage, data: { ...mortgage.data, startDate: '2018-01-01', loanedAmount: 240000 } };
+      const result = calculator.calculateLiquidityAndAssets([owned, sale({ salePrice: 300000 })], '2025-01-01', 3, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 190000 }] },
+      });
+
+      // Without a market value no equity was added, so only the redeemed debt leaves the balance sheet
+      // The month's payment covers its interest and part of the debt, the sale redeems the rest
+      const outstanding = -result[23].assets;
+      expect(result[24].assets).to.be.closeTo(0, 0.01);
+      expect(result[24].liquidity - result[23].liquidity).to.be.closeTo(300000 - 5000 - outstanding * (1 + 0.05 / 12), 0.01);
+    });
+
+    it('should ignore sales of unknown mortgages', () => {
+      const result = calculator.calculateLiquidityAndAssets([sale({ mortgageEventId: 99 })], '2025-01-01', 3);
+
+      expect(result[35].liquidity).to.equal(0);
+    });
+  });
+
+  describe('PCP end of term', () => {
+    // Car worth 27000 after the deposit, depreciating 600 a month, so 13200 after 23 months
+    const pcp = (endOfTerm?: PCPEvent['data']['endOfTerm'], residualValue = 12000): PCPEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'pcp',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 30000,
+        deposit: 3000,
+        years: 2,
+        residualValue,
+        interestRate: 0.06,
+        endOfTerm,
+      },
+    });
+    const finalPayment = (residualValue = 12000) => calculateAmortizedPayment(27000 - residualValue, 0.06, 24);
+
+    it('should hand the car back by default', () => {
+      const result = calculator.calculateLiquidityAndAssets([pcp()], '2025-01-01', 3);
+
+      expect(result[23].grossAssets).to.be.closeTo(13200, 0.01);
+      expect(result[24].assets).to.be.closeTo(0, 0.01);
+      expect(result[24].totalLiabilities).to.equal(0);
+      expect(result[23].liquidity - result[24].liquidity).to.be.closeTo(finalPayment(), 0.01);
+      expect(result[35].assets).to.be.closeTo(0, 0.01);
+      expect(result[35].liquidity).to.equal(result[24].liquidity);
+    });
+
+    it('should charge excess mileage when handing the car back', () => {
+      const result = calculator.calculateLiquidityAndAssets([pcp({ option: 'hand_back', excessMileageCharge: 450 })], '2025-01-01', 3);
+
+      expect(result[23].liquidity - result[24].liquidity).to.be.closeTo(finalPayment() + 450, 0.01);
+    });
+
+    it('should pay the balloon and keep the car depreciating', () => {
+      const result = calculator.calculateLiquidityAndAssets([pcp({ option: 'pay_balloon' })], '2025-01-01', 3);
+
+      expect(result[23].liquidity - result[24].liquidity).to.be.closeTo(finalPayment() + 12000, 0.01);
+      expect(result[24].assets).to.be.closeTo(13200, 0.01);
+      // Third year depreciation is 1.2% of the purchase price
+      expect(result[25].assets).to.be.closeTo(13200 - 360, 0.01);
+      expect(result[25].liquidity).to.equal(result[24].liquidity);
+    });
+
+    it('should use positive equity as the deposit of the next agreement', () => {
+      const nextAgreement = { purchasePrice: 25000, years: 3 as const, residualValue: 10000, interestRate: 0.05, additionalDeposit: 1000 };
+      const result = calculator.calculateLiquidityAndAssets([pcp({ option: 'part_exchange', nextAgreement })], '2025-01-01', 3);
+
+      // Equity of 1200 plus 1000 cash gives a 2200 deposit
+      expect(result[23].liquidity - result[24].liquidity).to.be.closeTo(finalPayment() + 1000, 0.01);
+      expect(result[24].grossAssets).to.be.closeTo(22800, 0.01);
+      expect(result[24].assets).to.be.closeTo(0, 0.01);
+
+      const payment = calculateAmortizedPayment(22800 - 10000, 0.05, 36);
+      const principal = payment - 12800 * 0.05 / 12;
+      expect(result[24].liquidity - result[25].liquidity).to.be.closeTo(payment, 0.01);
+      expect(result[25].assets).to.be.closeTo(principal - 500, 0.01);
+    });
+
+    it('should settle negative equity in cash when part-exchanging', () => {
+      const nextAgreement = { purchasePrice: 25000, years: 3 as const, residualValue: 10000, interestRate: 0.05 };
+      const result = calculator.calculateLiquidityAndAssets([pcp({ option: 'part_exchange', nextAgreement }, 15000)], '2025-01-01', 3);
+
+      expect(result[23].liquidity - result[24].liquidity).to.be.closeTo(finalPayment(15000) + 1800, 0.01);
+      expect(result[24].grossAssets).to.be.closeTo(25000, 0.01);
+    });
+  });
+
+  describe('depreciateCarValue', () => {
+    it('should follow the stepped curve by default', () => {
+      expect(depreciateCarValue(10000, 10000, 10000, 1)).to.be.closeTo(9800, 0.01);
+      expect(depreciateCarValue(5000, 10000, 10000, 30)).to.be.closeTo(4880, 0.01);
+    });
+
+    it('should never depreciate below the floor value', () => {
+      expect(depreciateCarValue(1600, 10000, 10000, 60)).to.equal(1500);
+      expect(depreciateCarValue(1400, 10000, 10000, 60)).to.equal(1400);
+      expect(depreciateCarValue(3100, 10000, 10000, 60, { model: 'stepped', floorValue: 3000 })).to.equal(3000);
+    });
+
+    it('should apply a declining balance rate compounded monthly', () => {
+      let value = 10000;
+      for (let month = 1; month <= 12; month++) {
+        value = depreciateCarValue(value, 10000, 10000, month, { model: 'declining_balance', annualRate: 0.15 });
+      }
+
+      expect(value).to.be.closeTo(8500, 0.01);
+    });
+
+    it('should depreciate in a straight line to the target value', () => {
+      const depreciation = { model: 'straight_line' as const, targetValue: 8000, targetYears: 4 };
+      let value = 20000;
+      for (let month = 1; month <= 60; month++) {
+        value = depreciateCarValue(value, 20000, 20000, month, depreciation);
+        if (month === 24) {
+          expect(value).to.be.closeTo(14000, 0.01);
+        }
+      }
+
+      expect(value).to.be.closeTo(8000, 0.01);
+    });
+
+    it('should use the custom yearly rates and repeat the last one', () => {
+      const depreciation = { model: 'custom' as const, yearlyRates: [0.2, 0.1] };
+      const values = [10000];
+      for (let month = 1; month <= 36; month++) {
+        values.push(depreciateCarValue(values[month - 1], 10000, 10000, month, depreciation));
+      }
+
+      expect(values[12]).to.be.closeTo(8000, 0.01);
+      expect(values[24]).to.be.closeTo(7200, 0.01);
+      expect(values[36]).to.be.closeTo(6480, 0.01);
+    });
+  });
+
+  describe('vehicle depreciation', () => {
+    const carLoan: CarLoanEvent = {
+      id: 1,
+      planId: 1,
+      type: 'car_loan',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 12000,
+        deposit: 0,
+        years: 1,
+        interestRate: 0,
+        depreciation: { model: 'declining_balance', annualRate: 0.2, floorValue: 5000 },
+      },
+    };
+
+    it('should keep depreciating a car after its loan is repaid', () => {
+      const result = calculator.calculateLiquidityAndAssets([carLoan], '2025-01-01', 10);
+
+      const valueAfterFirstYear = 12000 * 0.8;
+      expect(result[13].liquidity).to.equal(result[12].liquidity);
+      expect(result[13].assets - result[12].assets).to.be.closeTo(valueAfterFirstYear * Math.pow(0.8, 1 / 12) - valueAfterFirstYear, 0.01);
+    });
+
+    it('should stop depreciating at the floor value', () => {
+      const result = calculator.calculateLiquidityAndAssets([carLoan], '2025-01-01', 10);
+
+      expect(result[119].assets).to.equal(result[60].assets);
+    });
+
+    it('should carry the depreciation model into a part-exchanged PCP', () => {
+      const pcp: PCPEvent = {
+        id: 1,
+        planId: 1,
+        type: 'pcp',
+        data: {
+          startDate: '2025-01-01',
+          purchasePrice: 30000,
+          deposit: 3000,
+          years: 2,
+          residualValue: 12000,
+          interestRate: 0.06,
+          depreciation: { model: 'declining_balance', annualRate: 0.1 },
+          endOfTerm: {
+            option: 'part_exchange',
+            nextAgreement: { purchasePrice: 25000, years: 3, residualValue: 10000, interestRate: 0.05 },
+          },
+        },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([pcp], '2025-01-01', 3);
+
+      expect(result[25].grossAssets / result[24].grossAssets).to.be.closeTo(Math.pow(0.9, 1 / 12), 1e-6);
+    });
+  });
+
+  describe('loan events', () => {
+    const loan = (data: Partial<LoanEvent['data']>): LoanEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'loan',
+      data: {
+        startDate: '2025-01-01',
+        principal: 12000,
+        interestRate: 0.06,
+        termMonths: 12,
+        ...data,
+      },
+    });
+
+    it('should pay the principal into liquidity and hold the balance against assets', () => {
+      const result = calculator.calculateLiquidityAndAssets([loan({})], '2025-01-01', 2);
+
+      expect(result[0].liquidity).to.equal(12000);
+      expect(result[0].assets).to.equal(-12000);
+    });
+
+    it('should repay the loan over its term', () => {
+      const result = calculator.calculateLiquidityAndAssets([loan({})], '2025-01-01', 2);
+
+      const payment = calculateAmortizedPayment(12000, 0.06, 12);
+      expect(result[1].liquidity).to.be.closeTo(12000 - payment, 0.01);
+      expect(result[12].liquidity).to.be.closeTo(12000 - 12 * payment, 0.01);
+      expect(result[12].assets).to.be.closeTo(0, 0.01);
+      expect(result[23].liquidity).to.equal(result[12].liquidity);
+    });
+
+    it('should add interest to the balance and extend the term during a payment holiday', () => {
+      const result = calculator.calculateLiquidityAndAssets(
+        [loan({ paymentHoliday: { startDate: '2025-04-01', months: 3 } })],
+        '2025-01-01',
+        2
+      );
+
+      expect(result[5].liquidity).to.equal(result[2].liquidity);
+      expect(result[5].assets).to.be.lessThan(result[2].assets);
+      expect(result[14].assets).to.be.lessThan(-1);
+      expect(result[15].assets).to.be.closeTo(0, 0.01);
+    });
+
+    it('should continue from an opening balance', () => {
+      const result = calculator.calculateLiquidityAndAssets([loan({ startDate: '2024-07-01' })], '2025-01-01', 1, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 5000 }] },
+      });
+
+      // Five payments made, seven left
+      const payment = calculateAmortizedPayment(5000, 0.06, 7);
+      expect(result[0].liquidity).to.be.closeTo(-payment, 0.01);
+      expect(result[0].assets).to.be.closeTo(-5000 + payment - 25, 0.01);
+      expect(result[6].assets).to.be.closeTo(0, 0.01);
+    });
+
+    it('should hold an opening balance against net worth', () => {
+      const result = calculator.calculateLiquidityAndAssets([loan({ startDate: '2024-01-01', principal: 10000, termMonths: 24 })], '2025-01-01', 2, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 7000 }] },
+      });
+
+      // Only the first month's interest is added on top of the debt
+      expect(result[0].netWorth).to.be.closeTo(-7000 - 35, 0.01);
+      expect(result[0].totalLiabilities).to.be.closeTo(result[0].liquidity - result[0].netWorth, 0.01);
+      expect(result[12].assets).to.be.closeTo(0, 0.01);
+    });
+
+    it('should ignore an opening balance for a loan starting on the plan start', () => {
+      const withoutDebt = calculator.calculateLiquidityAndAssets([loan({})], '2025-01-01', 1);
+      const result = calculator.calculateLiquidityAndAssets([loan({})], '2025-01-01', 1, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 12000 }] },
+      });
+
+      expect(result[0].assets).to.equal(-12000);
+      expect(result).to.deep.equal(withoutDebt);
+    });
+  });
+
+  describe('credit card events', () => {
+    const card = (data: Partial<CreditCardEvent['data']>): CreditCardEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'credit_card',
+      data: {
+        startDate: '2025-01-01',
+        openingBalance: 1000,
+        interestRate: 0.24,
+        ...data,
+      },
+    });
+
+    it('should hold the opening balance against assets', () => {
+      const result = calculator.calculateLiquidityAndAssets([card({ fixedPayment: 100 })], '2025-01-01', 1);
+
+      expect(result[0].liquidity).to.equal(0);
+      expect(result[0].assets).to.equal(-1000);
+    });
+
+    it('should take the minimum payment on top of interest', () => {
+      const result = calculator.calculateLiquidityAndAssets([card({ minimumPayment: { rate: 0.01, floor: 25 } })], '2025-01-01', 1);
+
+      // 20 interest plus 1% of the balance
+      expect(result[1].liquidity).to.be.closeTo(-30, 0.01);
+      expect(result[1].assets).to.be.closeTo(-990, 0.01);
+    });
+
+    it('should charge no interest during the promotional period', () => {
+      const result = calculator.calculateLiquidityAndAssets(
+        [card({ openingBalance: 3000, fixedPayment: 500, promotionalEndDate: '2025-08-01' })],
+        '2025-01-01',
+        1
+      );
+
+      expect(result[6].liquidity).to.be.closeTo(-3000, 0.01);
+      expect(result[6].assets).to.be.closeTo(0, 0.01);
+      expect(result[11].liquidity).to.equal(result[6].liquidity);
+    });
+  });
+
+  describe('student loan events', () => {
+    const salary: IncomeEvent = {
+      id: 1,
+      planId: 1,
+      type: 'income',
+      data: {
+        amount: 4000,
+        isRecurrent: true,
+        months: [],
+        startDate: '2025-04-01',
+      },
+    };
+
+    const studentLoan = (data: Partial<StudentLoanEvent['data']>): StudentLoanEvent => ({
+      id: 2,
+      planId: 1,
+      type: 'student_loan',
+      data: {
+        incomeEventId: 1,
+        plan: 'plan_2',
+        balance: 40000,
+        rpiRate: 0.032,
+        firstRepaymentDate: '2020-04-01',
+        ...data,
+      },
+    });
+
+    it('should hold the balance against assets and repay from income above the threshold', () => {
+      const incomeOnly = calculator.calculateLiquidityAndAssets([salary], '2025-06-01', 1);
+      const result = calculator.calculateLiquidityAndAssets([salary, studentLoan({})], '2025-06-01', 1);
+
+      // 9% of the pay above the 2025-26 Plan 2 threshold of £28,470
+      const repayment = (4000 - 28470 / 12) * 0.09;
+      expect(incomeOnly[0].liquidity - result[0].liquidity).to.be.closeTo(repayment, 0.01);
+      expect(result[0].assets).to.be.closeTo(-40000 + repayment, 0.01);
+    });
+
+    it('should charge interest scaled by income on Plan 2', () => {
+      const result = calculator.calculateLiquidityAndAssets([salary, studentLoan({})], '2025-06-01', 1);
+
+      const repayment = (4000 - 28470 / 12) * 0.09;
+      const rate = 0.032 + 0.03 * (48000 - 28470) / (51245 - 28470);
+      const balance = 40000 - repayment;
+      expect(result[1].assets - result[0].assets).to.be.closeTo(repayment - balance * rate / 12, 0.01);
+    });
+
+    it('should not take repayments before the first repayment date', () => {
+      const incomeOnly = calculator.calculateLiquidityAndAssets([salary], '2025-06-01', 1);
+      const result = calculator.calculateLiquidityAndAssets([salary, studentLoan({ firstRepaymentDate: '2026-04-01' })], '2025-06-01', 1);
+
+      expect(result[9].liquidity).to.equal(incomeOnly[9].liquidity);
+      expect(result[10].liquidity).to.be.lessThan(incomeOnly[10].liquidity);
+    });
+
+    it('should write off the balance at the end of the plan term', () => {
+      const explicit = calculator.calculateLiquidityAndAssets([studentLoan({ writeOffDate: '2025-09-01' })], '2025-06-01', 1);
+      const derived = calculator.calculateLiquidityAndAssets([studentLoan({ plan: 'plan_1', firstRepaymentDate: '2000-09-01' })], '2025-06-01', 1);
+
+      expect(explicit[2].assets).to.be.lessThan(-40000);
+      expect(explicit[3].assets).to.equal(0);
+      // Plan 1 loans are written off after 25 years
+      expect(derived[2].assets).to.be.lessThan(-40000);
+      expect(derived[3].assets).to.equal(0);
+    });
+  });
+
+  describe('event breakdown', () => {
+    const salary: IncomeEvent = {
+      id: 1,
+      planId: 1,
+      type: 'income',
+      data: { amount: 3800, isRecurrent: true, months: [], startDate: '2025-01-01' },
+    };
+    const rent: ExpenseEvent = {
+      id: 2,
+      planId: 1,
+      type: 'expense',
+      data: { amount: 1240, isRecurrent: true, months: [], startDate: '2025-03-01' },
+    };
+
+    it('should report each event contribution when requested', () => {
+      const result = calculator.calculateLiquidityAndAssets([salary, rent], '2025-01-01', 1, { includeBreakdown: true });
+
+      expect(result[2].breakdown).to.deep.equal([
+        { eventId: 1, liquidityDelta: 3800, assetsDelta: 0 },
+        { eventId: 2, liquidityDelta: -1240, assetsDelta: 0 },
+      ]);
+    });
+
+    it('should leave out events with no effect in the month', () => {
+      const result = calculator.calculateLiquidityAndAssets([salary, rent], '2025-01-01', 1, { includeBreakdown: true });
+
+      expect(result[0].breakdown).to.deep.equal([{ eventId: 1, liquidityDelta: 3800, assetsDelta: 0 }]);
+    });
+
+    it('should not include a breakdown by default', () => {
+      const result = calculator.calculateLiquidityAndAssets([salary, rent], '2025-01-01', 1);
+
+      expect(result[2]).to.not.have.property('breakdown');
+    });
+  });
+
+  describe('calculateAmortizedBalance', () => {
+    it('should match the balance left after repaying month by month', () => {
+      const payment = calculateAmortizedPayment(10000, 0.06, 24);
+      let balance = 10000;
+      for (let i = 0; i < 10; i++) {
+        balance -= payment - balance * 0.005;
+      }
+
+      expect(calculateAmortizedBalance(10000, 0.06, 24, 10)).to.be.closeTo(balance, 0.01);
+      expect(calculateAmortizedBalance(10000, 0.06, 24, 24)).to.be.closeTo(0, 0.01);
+      expect(calculateAmortizedBalance(2400, 0, 24, 6)).to.be.closeTo(1800, 0.01);
+    });
+  });
+
+  describe('cash flow', () => {
+    it('should not include cash flow by default', () => {
+      const result = calculator.calculateLiquidityAndAssets([], '2025-01-01', 1);
+
+      expect(result[0]).to.not.have.property('cashflow');
+    });
+
+    it('should report income and expenses', () => {
+      const events = [
+        { id: 1, planId: 1, type: 'income', data: { amount: 3000, isRecurrent: true, months: [], startDate: '2025-01-01' } } as IncomeEvent,
+        { id: 2, planId: 1, type: 'expense', data: { amount: 1200, isRecurrent: true, months: [], startDate: '2025-01-01' } } as ExpenseEvent,
+      ];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1, { includeCashflow: true });
+
+      expect(result[0].cashflow).to.deep.equal({
+        income: 3000,
+        expenses: 1200,
+        interestPaid: 0,
+        principalRepaid: 0,
+        deposits: 0,
+        borrowing: 0,
+        contributions: 0,
+        withdrawals: 0,
+        saleProceeds: 0,
+        depreciation: 0,
+        investmentGrowth: 0,
+        cashInterest: 0,
+      });
+    });
+
+    it('should add up to each month\'s change in liquidity', () => {
+      const events = [
+        { id: 1, planId: 1, type: 'income', data: { amount: 4000, isRecurrent: true, months: [], startDate: '2025-01-01' } } as IncomeEvent,
+        { id: 2, planId: 1, type: 'expense', data: { amount: 1500, isRecurrent: true, months: [], startDate: '2025-01-01' } } as ExpenseEvent,
+        {
+          id: 3,
+          planId: 1,
+          type: 'mortgage',
+          data: { startDate: '2025-03-01', purchasePrice: 250000, loanedAmount: 200000, interestRate: 0.05, repaymentPercentage: 1, years: 25 },
+        } as MortgageEvent,
+        { id: 4, planId: 1, type: 'property_sale', data: { mortgageEventId: 3, date: '2026-06-01', salePrice: 260000, sellingCosts: 4000 } } as PropertySaleEvent,
+        { id: 5, planId: 1, type: 'car_loan', data: { startDate: '2025-02-01', purchasePrice: 15000, deposit: 3000, years: 3, interestRate: 0.06 } } as CarLoanEvent,
+        {
+          id: 6,
+          planId: 1,
+          type: 'pcp',
+          data: {
+            startDate: '2025-01-01',
+            purchasePrice: 20000,
+            deposit: 2000,
+            years: 2,
+            residualValue: 12000,
+            interestRate: 0.05,
+            endOfTerm: {
+              option: 'part_exchange',
+              nextAgreement: { purchasePrice: 22000, years: 3, residualValue: 10000, interestRate: 0.05, additionalDeposit: 500 },
+            },
+          },
+        } as PCPEvent,
+        { id: 7, planId: 1, type: 'loan', data: { startDate: '2025-05-01', principal: 8000, interestRate: 0.07, termMonths: 24 } } as LoanEvent,
+        {
+          id: 8,
+          planId: 1,
+          type: 'investment',
+          data: {
+            startDate: '2025-01-01',
+            openingBalance: 5000,
+            contributions: [{ startDate: '2025-01-01', amount: 300 }],
+            annualGrowthRate: 0.05,
+            withdrawals: [{ date: '2025-09-01', amount: 2000 }],
+          },
+        } as InvestmentEvent,
+        {
+          id: 9,
+          planId: 1,
+          type: 'pension',
+          data: {
+            incomeEventId: 1,
+            openingBalance: 20000,
+            employeeContributionRate: 0.05,
+            employerContributionRate: 0.03,
+            taxReliefRate: 0.25,
+            annualGrowthRate: 0.05,
+            accessDate: '2026-01-01',
+            drawdown: { monthlyAmount: 500 },
+          },
+        } as PensionEvent,
+      ];
+      const cashSettings = { savingsRate: 0.03, overdraftLimit: 1000, overdraftRate: 0.2 };
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 3, {
+        includeCashflow: true,
+        cashSettings,
+        openingBalances: { liquidity: 60000, assets: 0, debts: [] },
+      });
+
+      result.forEach((point, index) => {
+        const { income, expenses, interestPaid, principalRepaid, deposits, borrowing, contributions, withdrawals, saleProceeds, cashInterest } = point.cashflow!;
+        const previousLiquidity = index === 0 ? 60000 : result[index - 1].liquidity;
+        const total = income - expenses - interestPaid - principalRepaid - deposits + borrowing - contributions + withdrawals + saleProceeds + cashInterest;
+        expect(total, point.month).to.be.closeTo(point.liquidity - previousLiquidity, 0.1);
+      });
+    });
+
+    it('should split mortgage payments into interest and principal', () => {
+      const mortgage: MortgageEvent = {
+        id: 1,
+        planId: 1,
+        type: 'mortgage',
+        data: {
+          startDate: '2025-01-01',
+          purchasePrice: 300000,
+          loanedAmount: 240000,
+          repaymentPercentage: 1,
+          years: 25,
+          interestRate: 0.05,
+        },
+      };
+      const result = calculator.calculateLiquidityAndAssets([mortgage], '2025-01-01', 1, { includeCashflow: true });
+
+      const payment = calculateAmortizedPayment(240000, 0.05, 300);
+      expect(result[1].cashflow!.interestPaid).to.be.closeTo(1000, 0.01);
+      expect(result[1].cashflow!.principalRepaid).to.be.closeTo(payment - 1000, 0.01);
+    });
+
+    it('should report car depreciation and investment growth', () => {
+      const events = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'car_loan',
+          data: { startDate: '2025-01-01', purchasePrice: 20000, deposit: 2000, years: 3, interestRate: 0 },
+        } as CarLoanEvent,
+        {
+          id: 2,
+          planId: 1,
+          type: 'investment',
+          data: { startDate: '2025-01-01', openingBalance: 10000, contributions: [], annualGrowthRate: 0.06 },
+        } as InvestmentEvent,
+      ];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 1, { includeCashflow: true });
+
+      expect(result[1].cashflow!.depreciation).to.be.closeTo(400, 0.01);
+      expect(result[1].cashflow!.principalRepaid).to.be.closeTo(500, 0.01);
+      expect(result[1].cashflow!.interestPaid).to.equal(0);
+      expect(result[1].cashflow!.investmentGrowth).to.be.closeTo(10000 * (Math.pow(1.06, 1 / 12) - 1), 0.01);
+    });
+  });
+
+  describe('liabilities and net worth', () => {
+    const mortgage: MortgageEvent = {
+      id: 1,
+      planId: 1,
+      type: 'mortgage',
+      data: {
+        startDate: '2025-01-01',
+        purchasePrice: 300000,
+        loanedAmount: 240000,
+        repaymentPercentage: 1,
+        years: 25,
+        interestRate: 0.05,
+      },
+    };
+    const carLoan: CarLoanEvent = {
+      id: 2,
+      planId: 1,
+      type: 'car_loan',
+      data: { startDate: '2025-01-01', purchasePrice: 20000, deposit: 2000, years: 3, interestRate: 0 },
+    };
+
+    it('should report the outstanding balance of each loan', () => {
+      const result = calculator.calculateLiquidityAndAssets([mortgage, carLoan], '2025-01-01', 5);
+
+      const principal = calculateAmortizedPayment(240000, 0.05, 300) - 1000;
+      expect(result[0].liabilities).to.deep.equal([
+        { eventId: 1, balance: 240000 },
+        { eventId: 2, balance: 18000 },
+      ]);
+      expect(result[1].liabilities[0].balance).to.be.closeTo(240000 - principal, 0.01);
+      expect(result[1].liabilities[1].balance).to.be.closeTo(17500, 0.01);
+      expect(result[0].totalLiabilities).to.equal(258000);
+    });
+
+    it('should value gross assets from the holdings tracked', () => {
+      const result = calculator.calculateLiquidityAndAssets([mortgage, carLoan], '2025-01-01', 5, {
+        openingBalances: { liquidity: 0, assets: 5000, debts: [] },
+      });
+
+      // Opening assets, the house at its purchase price and the car at the amount financed
+      expect(result[0].grossAssets).to.equal(5000 + 300000 + 18000);
+      expect(result[0].assets).to.equal(5000 + 60000);
+    });
+
+    it('should not value a property owned before the plan start without a market value', () => {
+      const owned = { ...mortgage, data: { ...mortgage.data, startDate: '2018-01-01' } };
+      const result = calculator.calculateLiquidityAndAssets([owned], '2025-01-01', 5, {
+        openingBalances: { liquidity: 0, assets: 0, debts: [{ eventId: 1, balance: 190000 }] },
+      });
+
+      expect(result[0].grossAssets).to.equal(0);
+      expect(result[0].assets).to.be.closeTo(-result[0].totalLiabilities, 0.01);
+      expect(result[12].assets).to.be.closeTo(-result[12].totalLiabilities, 0.01);
+    });
+
+    it('should drop loans once repaid', () => {
+      const result = calculator.calculateLiquidityAndAssets([carLoan], '2025-01-01', 5);
+
+      expect(result[35].liabilities).to.have.length(1);
+      expect(result[36].liabilities).to.deep.equal([]);
+      expect(result[36].totalLiabilities).to.equal(0);
+    });
+
+    it('should repay the interest-only part of a mortgage at the end of the term', () => {
+      const partInterestOnly = { ...mortgage, data: { ...mortgage.data, repaymentPercentage: 0.8, years: 2 } };
+      const result = calculator.calculateLiquidityAndAssets([partInterestOnly], '2025-01-01', 3, {
+        openingBalances: { liquidity: 300000, assets: 0, debts: [] },
+      });
+
+      expect(result[23].totalLiabilities).to.be.greaterThan(48000);
+      expect(result[24].totalLiabilities).to.equal(0);
+      expect(result[23].liquidity - result[24].liquidity).to.be.greaterThan(48000);
+      expect(result[24].assets).to.be.closeTo(300000, 0.01);
+      for (const point of result) {
+        expect(point.netWorth).to.be.closeTo(point.liquidity + point.grossAssets - point.totalLiabilities, 0.02);
+      }
+    });
+
+    it('should report net worth as liquidity plus net assets', () => {
+      const result = calculator.calculateLiquidityAndAssets([mortgage, carLoan], '2025-01-01', 5, {
+        openingBalances: { liquidity: 100000, assets: 0, debts: [] },
+      });
+
+      // Both deposits leave liquidity and the car is held against its loan
+      expect(result[0].netWorth).to.equal(100000 - 60000 - 2000 + 60000);
+      expect(result[12].netWorth).to.be.closeTo(result[12].liquidity + result[12].assets, 0.02);
+    });
+
+    it('should keep net worth equal to liquidity plus gross assets less liabilities for every kind of debt', () => {
+      const events: Event[] = [
+        mortgage,
+        carLoan,
+        { id: 3, planId: 1, type: 'pcp', data: { startDate: '2025-03-01', purchasePrice: 30000, deposit: 3000, years: 2, residualValue: 12000, interestRate: 0.06 } } as PCPEvent,
+        { id: 4, planId: 1, type: 'loan', data: { startDate: '2025-02-01', principal: 12000, interestRate: 0.06, termMonths: 24 } } as LoanEvent,
+        { id: 5, planId: 1, type: 'credit_card', data: { startDate: '2025-01-01', openingBalance: 3000, interestRate: 0.2, fixedPayment: 200 } } as CreditCardEvent,
+        { id: 6, planId: 1, type: 'income', data: { amount: 5000, isRecurrent: true, months: [], startDate: '2025-01-01' } } as IncomeEvent,
+        { id: 7, planId: 1, type: 'student_loan', data: { incomeEventId: 6, plan: 'plan_2', balance: 30000, rpiRate: 0.032, firstRepaymentDate: '2020-04-01' } } as StudentLoanEvent,
+      ];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 5, {
+        openingBalances: { liquidity: 100000, assets: 5000, debts: [] },
+      });
+
+      for (const point of result) {
+        expect(point.netWorth).to.be.closeTo(point.liquidity + point.grossAssets - point.totalLiabilities, 0.1);
+      }
+    });
+  });
+
+  describe('market conditions', () => {
+    it('should add the investment return to growth for the projection year', () => {
+      const events: InvestmentEvent[] = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'investment',
+          data: { startDate: '2025-01-01', openingBalance: 10000, contributions: [], annualGrowthRate: 0.05 },
+        },
+      ];
+      const marketPath = [
+        { investmentReturn: 0.05, inflation: 0, interestRate: 0 },
+        { investmentReturn: -0.1, inflation: 0, interestRate: 0 },
+      ];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2, { marketPath });
+
+      // Growth starts the month after opening, each year at its own rate
+      expect(result[11].assets).to.be.closeTo(10000 * Math.pow(1.1, 11 / 12), 0.01);
+      expect(result[23].assets).to.be.closeTo(10000 * Math.pow(1.1, 11 / 12) * 0.95, 0.01);
+    });
+
+    it('should move escalating amounts by the inflation surprise from the second year', () => {
+      const events: ExpenseEvent[] = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'expense',
+          data: { amount: 1000, isRecurrent: true, months: [], startDate: '2025-01-01', escalation: { annualRate: 0.03, applyOn: 'anniversary' } },
+        },
+        {
+          id: 2,
+          planId: 1,
+          type: 'expense',
+          data: { amount: 500, isRecurrent: true, months: [], startDate: '2025-01-01' },
+        },
+      ];
+      const marketPath = [
+        { investmentReturn: 0, inflation: 0.02, interestRate: 0 },
+        { investmentReturn: 0, inflation: 0.02, interestRate: 0 },
+      ];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 2, { marketPath });
+
+      expect(result[0].liquidity).to.equal(-1500);
+      expect(result[12].liquidity - result[11].liquidity).to.be.closeTo(-(1000 * 1.03 * 1.02 + 500), 0.01);
+    });
+
+    it('should add the interest rate shift to the mortgage rate outside scheduled products', () => {
+      const events: MortgageEvent[] = [
+        {
+          id: 1,
+          planId: 1,
+          type: 'mortgage',
+          data: {
+            startDate: '2025-01-01',
+            purchasePrice: 200000,
+            loanedAmount: 100000,
+            repaymentPercentage: 0,
+            years: 25,
+            interestRate: 0.04,
+          },
+        },
+      ];
+      const marketPath = [{ investmentReturn: 0, inflation: 0, interestRate: 0.01 }];
+      const result = calculator.calculateLiquidityAndAssets(events, '2025-01-01', 5, { marketPath });
+
+      // Interest-only at 5%, the last entry repeats for later years
+      expect(result[1].liquidity - result[0].liquidity).to.be.closeTo(-100000 * 0.05 / 12, 0.01);
+      expect(result[59].liquidity - result[58].liquidity).to.be.closeTo(-100000 * 0.05 / 12, 0.01);
+    });
+  });
+
+  describe('cash interest', () => {
+    const expense = (amount: number): ExpenseEvent => ({
+      id: 1,
+      planId: 1,
+      type: 'expense',
+      data: { amount, isRecurrent: false, months: [], startDate: '2025-01-01' },
+    });
+
+    it('should not charge or pay interest without cash settings', () => {
+      const result = calculator.calculateLiquidityAndAssets([expense(5000)], '2025-01-01', 1);
+
+      expect(result[0].cashInterest).to.equal(0);
+      expect(result[11].liquidity).to.equal(-5000);
+    });
+
+    it('should pay savings interest on positive liquidity each month', () => {
+      const result = calculator.calculateLiquidityAndAssets([], '2025-01-01', 1, {
+        openingBalances: { liquidity: 12000, assets: 0, debts: [] },
+        cashSettings: { savingsRate: 0.03 },
+        includeCashflow: true,
+      });
+
+      expect(result[0].cashInterest).to.equal(30);
+      expect(result[0].cashflow!.cashInterest).to.equal(30);
+      expect(result[11].liquidity).to.be.closeTo(12000 * Math.pow(1.0025, 12), 0.01);
+    });
+
+    it('should charge the overdraft rate within the limit and the unarranged rate beyond it', () => {
+      const result = calculator.calculateLiquidityAndAssets([expense(3000)], '2025-01-01', 1, {
+        cashSettings: { savingsRate: 0.03, overdraftLimit: 2000, overdraftRate: 0.24, unarrangedOverdraftRate: 0.48 },
+      });
+
+      // 2000 at 2% a month plus 1000 at 4% a month
+      expect(result[0].cashInterest).to.equal(-80);
+      expect(result[0].liquidity).to.equal(-3080);
+    });
+
+    it('should charge the overdraft rate beyond the limit when no unarranged rate is set', () => {
+      const result = calculator.calculateLiquidityAndAssets([expense(3000)], '2025-01-01', 1, {
+        cashSettings: { overdraftLimit: 1000, overdraftRate: 0.12 },
+      });
+
+      expect(result[0].cashInterest).to.equal(-30);
+    });
+  });
+
+  describe('recurrence rules', () => {
+    it('should charge a weekly expense on each occurrence in the month', () => {
+      const expense: ExpenseEvent = {
+        id: 1,
+        planId: 1,
+        type: 'expense',
+        data: { amount: 100, isRecurrent: true, months: [], startDate: '2025-01-01', recurrence: { frequency: 'weekly' } },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([expense], '2025-01-01', 1);
+
+      // Five Wednesdays in January, four in February
+      expect(result[0].liquidity).to.equal(-500);
+      expect(result[1].liquidity).to.equal(-900);
+    });
+
+    it('should prefer the recurrence over months', () => {
+      const income: IncomeEvent = {
+        id: 1,
+        planId: 1,
+        type: 'income',
+        data: { amount: 1000, isRecurrent: true, months: [1], startDate: '2025-01-01', recurrence: { frequency: 'yearly', byMonth: [6] } },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([income], '2025-01-01', 1);
+
+      expect(result[0].liquidity).to.equal(0);
+      expect(result[5].liquidity).to.equal(1000);
+    });
+
+    it('should tax four-weekly gross pay per pay period', () => {
+      const income: IncomeEvent = {
+        id: 1,
+        planId: 1,
+        type: 'income',
+        data: {
+          amount: 60000 / 13,
+          isRecurrent: true,
+          months: [],
+          startDate: '2025-04-04',
+          grossSalary: { jurisdiction: 'uk' },
+          recurrence: { frequency: 'weekly', interval: 4 },
+        },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([income], '2025-04-01', 1);
+
+      // £60,000 a year in 13 payments, paid on 2 and 30 May
+      const netPayment = (60000 - 11432 - 3210.6) / 13;
+      expect(result[0].liquidity).to.be.closeTo(netPayment, 0.01);
+      expect(result[1].liquidity - result[0].liquidity).to.be.closeTo(2 * netPayment, 0.01);
+    });
+  });
+
+  describe('currency conversion', () => {
+    const currency = {
+      baseCurrency: 'GBP',
+      fxRates: [{ userId: 1, fromCurrency: 'EUR', toCurrency: 'GBP', rate: 0.85, ratePath: [{ date: '2025-07-01', rate: 0.9 }] }],
+    };
+
+    it('should convert deltas of events in another currency at each month\'s rate', () => {
+      const rent: ExpenseEvent = {
+        id: 1,
+        planId: 1,
+        type: 'expense',
+        currency: 'EUR',
+        data: { amount: 1000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+      };
+      const salary: IncomeEvent = {
+        id: 2,
+        planId: 1,
+        type: 'income',
+        currency: 'GBP',
+        data: { amount: 3000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([rent, salary], '2025-01-01', 1, { currency, includeCashflow: true });
+
+      expect(result[0].liquidity).to.be.closeTo(3000 - 850, 0.001);
+      expect(result[0].cashflow!.expenses).to.equal(850);
+      expect(result[6].liquidity - result[5].liquidity).to.be.closeTo(3000 - 900, 0.001);
+    });
+
+    it('should report loan balances in the base currency', () => {
+      const loan: LoanEvent = {
+        id: 1,
+        planId: 1,
+        type: 'loan',
+        currency: 'EUR',
+        data: { startDate: '2025-01-01', principal: 12000, interestRate: 0, termMonths: 12 },
+      };
+
+      const result = calculator.calculateLiquidityAndAssets([loan], '2025-01-01', 1, { currency });
+
+      expect(result[0].liabilities[0].balance).to.equal(12000 * 0.85);
+      expect(result[6].liabilities[0].balance).to.equal(6000 * 0.9);
+    });
+
+    it('should revalue holdings in another currency at each month\'s rate', () => {
+      const mortgage: MortgageEvent = {
+        id: 1,
+        planId: 1,
+        type: 'mortgage',
+        currency: 'EUR',
+        data: { startDate: '2025-01-01', purchasePrice: 200000, loanedAmount: 100000, interestRate: 0, repaymentPercentage: 1.0, years: 25 },
+      };
+      const sale: PropertySaleEvent = {
+        id: 2,
+        planId: 1,
+        type: 'property_sale',
+        currency: 'EUR',
+        data: { mortgageEventId: 1, date: '2026-01-01', salePrice: 200000, sellingCosts: 0 },
+      };
+      const ratePath = { ...currency, fxRates: [{ ...currency.fxRates[0], ratePath: [{ date: '2025-07-01', rate: 0.95 }] }] };
+
+      const result = calculator.calculateLiquidityAndAssets([mortgage, sale], '2025-01-01', 2, { currency: ratePath });
+
+      // Equity of 100000 EUR plus the principal repaid
+      expect(result[0].assets).to.be.closeTo(100000 * 0.85, 0.01);
+      expect(result[6].assets).to.be.closeTo((100000 + 6 * 100000 / 300) * 0.95, 0.01);
+      expect(result[6].grossAssets).to.equal(200000 * 0.95);
+      expect(result[12].assets).to.be.closeTo(0, 0.01);
+      expect(result[23].assets).to.be.closeTo(0, 0.01);
+    });
+
+    it('should reject events without a rate to the base currency', () => {
+      const expense: ExpenseEvent = {
+        id: 1,
+        planId: 1,
+        type: 'expense',
+        currency: 'USD',
+        data: { amount: 100, isRecurrent: false, months: [], startDate: '2025-01-01' },
+      };
+
+      expect(() => calculator.calculateLiquidityAndAssets([expense], '2025-01-01', 1, { currency })).to.throw('No FX rate from USD to GBP');
+    });
+  });
+});
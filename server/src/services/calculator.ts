@@ -1,18 +1,150 @@
-import { Event, IncomeEvent, ExpenseEvent, MortgageEvent, MortgageRepaymentEvent, PCPEvent, CarLoanEvent } from '../models/events';
-import { startOfMonth, addMonths, parseISO, isBefore, isAfter, isEqual, differenceInMonths } from 'date-fns';
+import { Event, Escalation, IncomeEvent, ExpenseEvent, MortgageEvent, MortgageRatePeriod, MortgageRepaymentEvent, PropertySaleEvent, PCPEvent, PCPEndOfTerm, VehicleDepreciation, CarLoanEvent, InvestmentEvent, PensionEvent, LoanEvent, CreditCardEvent, StudentLoanEvent } from '../models/events';
+import { CashSettings, OpeningDebt } from '../models/plan';
+import { calculateNetPay, calculateNetPensionIncome, getTaxJurisdiction } from './tax-rules';
+import { countOccurrencesInMonth } from './recurrence';
+import { CurrencySettings, getFxRate } from './fx';
+import { ukJurisdiction } from './tax-rules/uk';
+import { calculateUkStudentLoanInterestRate, calculateUkStudentLoanRepayment, getUkStudentLoanRules, UK_STUDENT_LOAN_WRITE_OFF_YEARS } from './tax-rules/uk-student-loans';
+import { startOfMonth, addMonths, addYears, parseISO, isBefore, isAfter, isEqual, differenceInMonths, differenceInCalendarYears } from 'date-fns';
 
 export interface ChartDataPoint {
   month: string; // ISO date string (YYYY-MM-DD)
+  liquidity: number;
+  assets: number; // Holdings less the outstanding balance of every loan, so grossAssets - totalLiabilities
+  grossAssets: number; // Value of the holdings tracked: opening assets, properties, cars, investment accounts and pension pots
+  liabilities: LiabilityBalance[]; // Outstanding balance of each loan
+  totalLiabilities: number;
+  netWorth: number; // Liquidity plus assets net of debts
+  cashInterest: number; // Interest earned on cash this month, negative when overdraft interest is charged
+  breakdown?: EventContribution[]; // Only when requested with includeBreakdown
+  cashflow?: CashflowTotals; // Only when requested with includeCashflow
+  real?: RealValues; // Only when real values are requested, added by addRealValues()
+}
+
+/**
+ * Values of a month in today's money, deflated to the plan start date
+ */
+export interface RealValues {
+  liquidity: number;
+  assets: number;
+  grossAssets: number;
+  liabilities: LiabilityBalance[];
+  totalLiabilities: number;
+  netWorth: number;
+  breakdown?: EventContribution[]; // Only when the nominal breakdown is included
+}
+
+/**
+ * Outstanding balance of a loan at the end of a month
+ */
+export interface LiabilityBalance {
+  eventId: number;
+  balance: number;
+}
+
+/**
+ * Change an event made to liquidity and assets in one month
+ */
+export interface EventContribution {
+  eventId: number;
+  liquidityDelta: number;
+  assetsDelta: number;
+}
+
+/**
+ * Totals of one month's cash flows by category, all reported as positive amounts
+ * The change in liquidity is income - expenses - interestPaid - principalRepaid - deposits + borrowing
+ * - contributions + withdrawals + saleProceeds + cashInterest; depreciation and investmentGrowth do not move cash
+ */
+export interface CashflowTotals {
+  income: number; // Take-home pay and pension drawdown
+  expenses: number; // Expense events and fees or charges paid by other events
+  interestPaid: number;
+  principalRepaid: number;
+  deposits: number; // Paid towards properties and cars when they are bought
+  borrowing: number; // Loan principal paid into liquidity
+  contributions: number; // Paid into investment accounts and pension pots
+  withdrawals: number; // Taken out of investment accounts
+  saleProceeds: number; // Sale prices of properties, before the mortgage is redeemed and costs are paid
+  depreciation: number; // Value lost by cars
+  investmentGrowth: number; // Growth of investment accounts and pension pots
+  cashInterest: number; // Savings interest earned, negative for overdraft interest charged
+}
+
+/**
+ * State held on the plan start date, used to seed the projection
+ */
+export interface OpeningBalances {
   liquidity: number;
   assets: number;
+  debts: OpeningDebt[]; // Outstanding balances of mortgages, car loans, loans and credit cards already running
+}
+
+export interface CalculationOptions {
+  openingBalances?: OpeningBalances;
+  includeBreakdown?: boolean; // Report each event's contribution per month
+  includeCashflow?: boolean; // Report each month's cash flows by category
+  marketPath?: MarketConditions[]; // Market conditions per projection year, the last entry repeats; rates are used as entered when omitted
+  cashSettings?: CashSettings; // Interest on the cash balance, none when omitted
+  currency?: CurrencySettings; // Base currency and FX rates, events with a currency are taken as already in the base currency when omitted
+}
+
+/**
+ * How market rates differ from the rates entered on events during one projection year, used by simulations
+ * Each value is an annual rate as decimal added to the entered rates
+ */
+export interface MarketConditions {
+  investmentReturn: number; // Added to investment and pension growth rates
+  inflation: number; // Added to the indexation of escalating incomes and expenses and to RPI
+  interestRate: number; // Added to variable rates: mortgage rates outside scheduled products, credit card APRs and cash interest rates
+}
+
+// Market conditions of a deterministic projection
+const EXPECTED_MARKET: MarketConditions = { investmentReturn: 0, inflation: 0, interestRate: 0 };
+
+// A PCP agreement being paid, either the original one or one taken out by part-exchange
+interface PCPAgreement {
+  startMonth: Date;
+  purchasePrice: number;
+  deposit: number;
+  years: number;
+  residualValue: number;
+  interestRate: number;
+  depreciation?: VehicleDepreciation;
+  endOfTerm?: PCPEndOfTerm;
+}
+
+// Monthly amortized mortgage payment and the annual rate it was calculated at
+interface MortgagePayment {
+  amount: number;
+  rate: number;
 }
 
 interface DeltaResult {
   liquidityDelta: number;
   assetsDelta: number;
   newBalance?: number;
+  newValue?: number; // Updated value of a tracked asset such as a property or car
+  newPayment?: MortgagePayment;
+  newAllowance?: number; // Remaining penalty-free overpayment allowance for the mortgage year
+  nextAgreement?: PCPAgreement; // Agreement taken out by part-exchanging a PCP car
+  cashflow?: Partial<CashflowTotals>; // How the deltas split into cash flow categories
 }
 
+const CASHFLOW_CATEGORIES: (keyof CashflowTotals)[] = [
+  'income', 'expenses', 'interestPaid', 'principalRepaid', 'deposits', 'borrowing', 'contributions', 'withdrawals', 'saleProceeds',
+  'depreciation', 'investmentGrowth', 'cashInterest',
+];
+
+/**
+ * Shared utility function to total the money paid out in a month
+ * @param cashflow Cash flow totals of the month
+ * @returns Expenses plus loan interest and principal repaid
+ */
+export const calculateOutgoings = (cashflow: CashflowTotals): number => {
+  return cashflow.expenses + cashflow.interestPaid + cashflow.principalRepaid;
+};
+
 /**
  * Shared utility function to calculate car depreciation
  * @param purchasePrice Original purchase price of the car
@@ -33,11 +165,126 @@ export const calculateCarDepreciation = (purchasePrice: number, monthsSincePurch
   }
   
   const depreciation = purchasePrice * depreciationRate;
-  // Minimum car value is £1500
   
   return Math.max(depreciation, 0);
 };
 
+// Value a car is never depreciated below unless its depreciation sets another floor
+export const DEFAULT_CAR_FLOOR_VALUE = 1500;
+
+/**
+ * Shared utility function to depreciate a car's value by one month
+ * @param carValue Value of the car before this month
+ * @param initialValue Value of the car in its purchase month
+ * @param purchasePrice Original purchase price of the car
+ * @param monthsSincePurchase Number of months since purchase (1 for the first month of depreciation)
+ * @param depreciation Depreciation model, defaults to the stepped curve
+ * @returns Value of the car after this month, never below the floor
+ */
+export const depreciateCarValue = (
+  carValue: number,
+  initialValue: number,
+  purchasePrice: number,
+  monthsSincePurchase: number,
+  depreciation?: VehicleDepreciation
+): number => {
+  const floorValue = depreciation?.floorValue ?? DEFAULT_CAR_FLOOR_VALUE;
+  let newValue: number;
+  
+  switch (depreciation?.model ?? 'stepped') {
+    case 'declining_balance':
+      newValue = carValue * Math.pow(1 - (depreciation?.annualRate ?? 0), 1 / 12);
+      break;
+    case 'straight_line':
+      const targetValue = depreciation?.targetValue ?? floorValue;
+      const targetMonths = (depreciation?.targetYears ?? 1) * 12;
+      newValue = Math.max(Math.min(carValue, targetValue), carValue - (initialValue - targetValue) / targetMonths);
+      break;
+    case 'custom':
+      const yearlyRates = depreciation?.yearlyRates ?? [];
+      const yearOfOwnership = Math.floor((monthsSincePurchase - 1) / 12);
+      const yearlyRate = yearlyRates[Math.min(yearOfOwnership, yearlyRates.length - 1)] ?? 0;
+      newValue = carValue * Math.pow(1 - yearlyRate, 1 / 12);
+      break;
+    case 'stepped':
+      newValue = carValue - calculateCarDepreciation(purchasePrice, monthsSincePurchase);
+      break;
+  }
+  
+  // A car already worth less than the floor keeps its value rather than being revalued upwards
+  return Math.max(Math.min(carValue, floorValue), newValue);
+};
+
+/**
+ * Shared utility function to apply annual indexation to a recurring amount
+ * @param amount Amount in the first year
+ * @param escalation Indexation settings, if any
+ * @param startDate Date the recurring amount starts
+ * @param currentMonth Month being calculated
+ * @returns Amount after all increases that have taken effect by currentMonth
+ */
+export const applyEscalation = (amount: number, escalation: Escalation | undefined, startDate: Date, currentMonth: Date): number => {
+  if (!escalation || escalation.annualRate === 0) {
+    return amount;
+  }
+  
+  const increases = escalation.applyOn === 'january'
+    ? differenceInCalendarYears(currentMonth, startDate)
+    : Math.floor(differenceInMonths(currentMonth, startOfMonth(startDate)) / 12);
+  
+  return amount * Math.pow(1 + escalation.annualRate, Math.max(0, increases));
+};
+
+// Lowest annual growth rate compounded, as a loss of everything has no monthly equivalent
+const MIN_ANNUAL_GROWTH_RATE = -0.99;
+
+/**
+ * Shared utility function to convert an annual growth rate into the equivalent monthly rate
+ * Rates at or below -100%, which simulated returns can reach, are taken as a 99% loss
+ * @param annualRate Annual growth as decimal
+ * @returns Monthly rate that compounds to the annual rate over 12 months
+ */
+export const toMonthlyGrowthRate = (annualRate: number): number => {
+  return Math.pow(1 + Math.max(MIN_ANNUAL_GROWTH_RATE, annualRate), 1 / 12) - 1;
+};
+
+/**
+ * Shared utility function to calculate a fixed monthly payment that repays a loan over a term
+ * @param principal Amount to repay
+ * @param annualRate Annual interest rate as decimal
+ * @param months Number of monthly payments
+ * @returns Monthly payment
+ */
+export const calculateAmortizedPayment = (principal: number, annualRate: number, months: number): number => {
+  const monthlyRate = annualRate / 12;
+  
+  if (monthlyRate === 0) {
+    return principal / months;
+  }
+  
+  return principal * (monthlyRate * Math.pow(1 + monthlyRate, months)) / (Math.pow(1 + monthlyRate, months) - 1);
+};
+
+/**
+ * Shared utility function to calculate the balance left on an amortized loan
+ * @param principal Amount borrowed
+ * @param annualRate Annual interest rate as decimal
+ * @param months Number of monthly payments
+ * @param paymentsMade Number of payments already made
+ * @returns Outstanding balance after the payments made
+ */
+export const calculateAmortizedBalance = (principal: number, annualRate: number, months: number, paymentsMade: number): number => {
+  const monthlyRate = annualRate / 12;
+  const payment = calculateAmortizedPayment(principal, annualRate, months);
+  
+  if (monthlyRate === 0) {
+    return Math.max(0, principal - payment * paymentsMade);
+  }
+  
+  const growth = Math.pow(1 + monthlyRate, paymentsMade);
+  return Math.max(0, principal * growth - payment * (growth - 1) / monthlyRate);
+};
+
 /**
  * Financial Calculator Service
  * Calculates liquidity and assets over time based on events
@@ -48,25 +295,75 @@ export class FinancialCalculator {
    * @param events Array of all events for a plan
    * @param startDate Start date for calculations (ISO string or Date)
    * @param rangeYears Number of years to project (5-20)
+   * @param options Optional calculation settings such as opening balances
    * @returns Array of data points with month, liquidity, and assets
    */
-  calculateLiquidityAndAssets(events: Event[], startDate: string | Date, rangeYears: number): ChartDataPoint[] {
+  calculateLiquidityAndAssets(events: Event[], startDate: string | Date, rangeYears: number, options: CalculationOptions = {}): ChartDataPoint[] {
     const dataPoints: ChartDataPoint[] = [];
     const planStartDate = typeof startDate === 'string' ? parseISO(startDate) : startDate;
     const startMonth = startOfMonth(planStartDate);
     const totalMonths = rangeYears * 12;
+    const openingBalances = options.openingBalances;
+    
+    let currentLiquidity = openingBalances?.liquidity ?? 0;
     
-    let currentLiquidity = 0;
-    let currentAssets = 0;
+    // Assets net of debts in each event currency (undefined for the base currency), revalued at each month's rate
+    const assetsByCurrency = new Map<string | undefined, number>([[undefined, openingBalances?.assets ?? 0]]);
+    const addAssets = (code: string | undefined, amount: number) => assetsByCurrency.set(code, (assetsByCurrency.get(code) ?? 0) + amount);
     
     // Track state for stateful events
     const mortgageBalances = new Map<number, number>(); // mortgageEventId -> remaining balance
+    const propertyValues = new Map<number, number>(); // mortgageEventId -> property market value
+    const mortgagePayments = new Map<number, MortgagePayment>(); // mortgageEventId -> current amortized payment
+    const overpaymentAllowances = new Map<number, number>(); // mortgageEventId -> remaining penalty-free overpayment this mortgage year
+    const soldProperties = new Set<number>(); // mortgageEventIds whose property has been sold
     const carLoanBalances = new Map<number, number>(); // carLoanEventId -> remaining balance
     const carPurchaseDates = new Map<number, Date>(); // eventId -> purchase date
+    const pcpAgreements = new Map<number, PCPAgreement>(); // pcpEventId -> agreement currently running
+    const carValues = new Map<number, number>(); // pcp/car loan eventId -> market value of the car
+    const pcpBalances = new Map<number, number>(); // pcpEventId -> finance owed, including the optional final payment
+    const investmentBalances = new Map<number, number>(); // investmentEventId -> account balance
+    const pensionBalances = new Map<number, number>(); // pensionEventId -> pot value
+    const loanBalances = new Map<number, number>(); // loan/credit card eventId -> outstanding balance
+    const studentLoanBalances = new Map<number, number>(); // studentLoanEventId -> outstanding balance
+    const taxYearGross = new Map<string, number>(); // 'incomeEventId:taxYear' -> gross pay of the event in the tax year
+    
+    // Seed balances of loans that were already running on the start date
+    // Like a new loan in its start month, the debt is held against assets; the debt of a mortgage or car loan is
+    // taken off with its opening equity when the property or car is first seen. A loan starting on or after the
+    // start date takes on its debt in its own start month, so an opening balance given for it is ignored
+    for (const debt of openingBalances?.debts ?? []) {
+      const debtEvent = events.find((event) => event.id === debt.eventId);
+      const debtStartDate = (debtEvent as MortgageEvent | CarLoanEvent | LoanEvent | CreditCardEvent | undefined)?.data.startDate;
+      if (!debtStartDate || !isBefore(startOfMonth(parseISO(debtStartDate)), startMonth)) {
+        continue;
+      }
+      if (debtEvent?.type === 'mortgage') {
+        mortgageBalances.set(debt.eventId, debt.balance);
+      } else if (debtEvent?.type === 'car_loan') {
+        carLoanBalances.set(debt.eventId, debt.balance);
+      } else if (debtEvent?.type === 'loan' || debtEvent?.type === 'credit_card') {
+        loanBalances.set(debt.eventId, debt.balance);
+        addAssets(debtEvent.currency, -debt.balance);
+      }
+    }
+    
+    // Price level relative to the entered indexation, moved by each year's inflation surprise
+    let priceIndex = 1;
     
     // Process each month
     for (let monthIndex = 0; monthIndex < totalMonths; monthIndex++) {
       const currentMonth = addMonths(startMonth, monthIndex);
+      const market = this.getMarketConditions(options.marketPath, monthIndex);
+      if (monthIndex > 0 && monthIndex % 12 === 0) {
+        priceIndex *= 1 + market.inflation;
+      }
+      
+      const breakdown: EventContribution[] = [];
+      const cashflow: CashflowTotals = {
+        income: 0, expenses: 0, interestPaid: 0, principalRepaid: 0, deposits: 0, borrowing: 0, contributions: 0, withdrawals: 0, saleProceeds: 0,
+        depreciation: 0, investmentGrowth: 0, cashInterest: 0,
+      };
       
       // Process each event for this month
       for (const event of events) {
@@ -74,51 +371,213 @@ export class FinancialCalculator {
         
         switch (event.type) {
           case 'income':
-            delta = this.calculateIncomeDelta(event as IncomeEvent, currentMonth);
+            delta = this.calculateIncomeDelta(event as IncomeEvent, currentMonth, priceIndex, taxYearGross);
             break;
           case 'expense':
-            delta = this.calculateExpenseDelta(event as ExpenseEvent, currentMonth);
+            delta = this.calculateExpenseDelta(event as ExpenseEvent, currentMonth, priceIndex);
             break;
           case 'mortgage':
-            const mortgageBalance = mortgageBalances.get(event.id!) || (event as MortgageEvent).data.loanedAmount * (event as MortgageEvent).data.repaymentPercentage;
-            delta = this.calculateMortgageDelta(event as MortgageEvent, currentMonth, mortgageBalance);
+            if (soldProperties.has(event.id!)) {
+              break;
+            }
+            const mortgageBalance = mortgageBalances.get(event.id!) ?? (event as MortgageEvent).data.loanedAmount * (event as MortgageEvent).data.repaymentPercentage;
+            const allowance = this.calculateOverpaymentAllowance(event as MortgageEvent, currentMonth, mortgageBalance, overpaymentAllowances.get(event.id!));
+            if (allowance !== undefined) {
+              overpaymentAllowances.set(event.id!, allowance);
+            }
+            delta = this.calculateMortgageDelta(event as MortgageEvent, currentMonth, mortgageBalance, mortgagePayments.get(event.id!), market);
             if (delta.newBalance !== undefined) {
               mortgageBalances.set(event.id!, delta.newBalance);
             }
+            if (delta.newPayment !== undefined) {
+              mortgagePayments.set(event.id!, delta.newPayment);
+            }
+            const propertyDelta = this.calculatePropertyDelta(event as MortgageEvent, currentMonth, propertyValues.get(event.id!), mortgageBalance);
+            delta.assetsDelta += propertyDelta.assetsDelta;
+            if (propertyDelta.newValue !== undefined) {
+              propertyValues.set(event.id!, propertyDelta.newValue);
+            }
             break;
           case 'mortgage_repayment':
             const mortgageId = (event as MortgageRepaymentEvent).data.mortgageEventId;
-            const currentMortgageBalance = mortgageBalances.get(mortgageId) || 0;
-            delta = this.calculateMortgageRepaymentDelta(event as MortgageRepaymentEvent, currentMonth, currentMortgageBalance);
+            const parentMortgage = events.find((e) => e.id === mortgageId && e.type === 'mortgage') as MortgageEvent | undefined;
+            const currentMortgageBalance = mortgageBalances.get(mortgageId) ?? 0;
+            delta = this.calculateMortgageRepaymentDelta(event as MortgageRepaymentEvent, currentMonth, currentMortgageBalance, parentMortgage, overpaymentAllowances.get(mortgageId), market);
             if (delta.newBalance !== undefined) {
               mortgageBalances.set(mortgageId, delta.newBalance);
             }
+            if (delta.newPayment !== undefined) {
+              mortgagePayments.set(mortgageId, delta.newPayment);
+            }
+            if (delta.newAllowance !== undefined) {
+              overpaymentAllowances.set(mortgageId, delta.newAllowance);
+            }
+            break;
+          case 'property_sale':
+            const soldMortgageId = (event as PropertySaleEvent).data.mortgageEventId;
+            const soldMortgage = events.find((e) => e.id === soldMortgageId && e.type === 'mortgage') as MortgageEvent | undefined;
+            if (!soldMortgage || soldProperties.has(soldMortgageId)) {
+              break;
+            }
+            delta = this.calculatePropertySaleDelta(
+              event as PropertySaleEvent,
+              currentMonth,
+              soldMortgage,
+              mortgageBalances.get(soldMortgageId) ?? 0,
+              propertyValues.get(soldMortgageId),
+              overpaymentAllowances.get(soldMortgageId)
+            );
+            if (delta.newBalance !== undefined) {
+              mortgageBalances.set(soldMortgageId, delta.newBalance);
+              propertyValues.set(soldMortgageId, 0);
+              soldProperties.add(soldMortgageId);
+            }
             break;
           case 'pcp':
-            const pcpDate = carPurchaseDates.get(event.id!) || parseISO((event as PCPEvent).data.startDate);
-            const pcpMonths = differenceInMonths(currentMonth, pcpDate);
-            delta = this.calculatePCPDelta(event as PCPEvent, currentMonth, pcpMonths);
-            if (!carPurchaseDates.has(event.id!)) {
-              carPurchaseDates.set(event.id!, pcpDate);
+            const pcpData = (event as PCPEvent).data;
+            const pcpAgreement = pcpAgreements.get(event.id!) ?? { ...pcpData, startMonth: startOfMonth(parseISO(pcpData.startDate)) };
+            delta = this.calculatePCPDelta(pcpAgreement, currentMonth, carValues.get(event.id!));
+            if (delta.newValue !== undefined) {
+              carValues.set(event.id!, delta.newValue);
             }
+            if (delta.newBalance !== undefined) {
+              pcpBalances.set(event.id!, delta.newBalance);
+            }
+            pcpAgreements.set(event.id!, delta.nextAgreement ?? pcpAgreement);
             break;
           case 'car_loan':
             const carLoanData = event as CarLoanEvent;
             const purchaseDate = carPurchaseDates.get(event.id!) || parseISO(carLoanData.data.startDate);
             const carLoanMonths = differenceInMonths(currentMonth, purchaseDate);
-            const loanBalance = carLoanBalances.get(event.id!) || (carLoanData.data.purchasePrice - carLoanData.data.deposit);
-            delta = this.calculateCarLoanDelta(carLoanData, currentMonth, carLoanMonths, loanBalance);
+            const loanBalance = carLoanBalances.get(event.id!) ?? (carLoanData.data.purchasePrice - carLoanData.data.deposit);
+            delta = this.calculateCarLoanDelta(carLoanData, currentMonth, carLoanMonths, loanBalance, carValues.get(event.id!));
             if (delta.newBalance !== undefined) {
               carLoanBalances.set(event.id!, delta.newBalance);
             }
+            if (delta.newValue !== undefined) {
+              carValues.set(event.id!, delta.newValue);
+            }
             if (!carPurchaseDates.has(event.id!)) {
               carPurchaseDates.set(event.id!, purchaseDate);
             }
             break;
+          case 'loan':
+            delta = this.calculateLoanDelta(event as LoanEvent, currentMonth, loanBalances.get(event.id!));
+            if (delta.newBalance !== undefined) {
+              loanBalances.set(event.id!, delta.newBalance);
+            }
+            break;
+          case 'credit_card':
+            delta = this.calculateCreditCardDelta(event as CreditCardEvent, currentMonth, loanBalances.get(event.id!), market);
+            if (delta.newBalance !== undefined) {
+              loanBalances.set(event.id!, delta.newBalance);
+            }
+            break;
+          case 'investment':
+            delta = this.calculateInvestmentDelta(event as InvestmentEvent, currentMonth, investmentBalances.get(event.id!), market);
+            if (delta.newBalance !== undefined) {
+              investmentBalances.set(event.id!, delta.newBalance);
+            }
+            break;
+          case 'pension':
+            const pensionData = (event as PensionEvent).data;
+            const linkedIncome = events.find((e) => e.id === pensionData.incomeEventId && e.type === 'income') as IncomeEvent | undefined;
+            const pensionBalance = pensionBalances.get(event.id!) ?? pensionData.openingBalance;
+            delta = this.calculatePensionDelta(event as PensionEvent, currentMonth, pensionBalance, linkedIncome, !pensionBalances.has(event.id!), market, priceIndex);
+            if (delta.newBalance !== undefined) {
+              pensionBalances.set(event.id!, delta.newBalance);
+            }
+            break;
+          case 'student_loan':
+            const studentLoanData = (event as StudentLoanEvent).data;
+            const repaymentIncome = events.find((e) => e.id === studentLoanData.incomeEventId && e.type === 'income') as IncomeEvent | undefined;
+            const studentLoanBalance = studentLoanBalances.get(event.id!) ?? studentLoanData.balance;
+            delta = this.calculateStudentLoanDelta(event as StudentLoanEvent, currentMonth, studentLoanBalance, repaymentIncome, !studentLoanBalances.has(event.id!), market, priceIndex);
+            if (delta.newBalance !== undefined) {
+              studentLoanBalances.set(event.id!, delta.newBalance);
+            }
+            break;
         }
         
+        // Cash flows of events in another currency are converted into the base currency at this month's rate,
+        // holdings and debts stay in their own currency
+        addAssets(event.currency, delta.assetsDelta);
+        const fxRate = this.getEventFxRate(event, currentMonth, options.currency);
+        delta.liquidityDelta *= fxRate;
+        delta.assetsDelta *= fxRate;
+        
         currentLiquidity += delta.liquidityDelta;
-        currentAssets += delta.assetsDelta;
+        
+        for (const category of CASHFLOW_CATEGORIES) {
+          cashflow[category] += (delta.cashflow?.[category] ?? 0) * fxRate;
+        }
+        
+        if (options.includeBreakdown && (delta.liquidityDelta !== 0 || delta.assetsDelta !== 0)) {
+          breakdown.push({
+            eventId: event.id!,
+            liquidityDelta: Math.round(delta.liquidityDelta * 100) / 100,
+            assetsDelta: Math.round(delta.assetsDelta * 100) / 100,
+          });
+        }
+      }
+      
+      // Value the assets held in each currency at this month's rate
+      let currentAssets = 0;
+      for (const [code, amount] of assetsByCurrency) {
+        currentAssets += amount * this.getCurrencyFxRate(code, currentMonth, options.currency);
+      }
+      
+      // Interest on the balance left in cash at the end of the month
+      const cashInterest = this.calculateCashInterest(currentLiquidity, options.cashSettings, market);
+      currentLiquidity += cashInterest;
+      cashflow.cashInterest += cashInterest;
+      
+      for (const category of CASHFLOW_CATEGORIES) {
+        cashflow[category] = Math.round(cashflow[category] * 100) / 100;
+      }
+      
+      // Outstanding balances of the loans running at the end of the month
+      const liabilities: LiabilityBalance[] = [];
+      for (const event of events) {
+        let balance: number | undefined;
+        switch (event.type) {
+          case 'mortgage':
+            const repaymentBalance = mortgageBalances.get(event.id!);
+            if (repaymentBalance !== undefined && !soldProperties.has(event.id!) && !isBefore(currentMonth, startOfMonth(parseISO((event as MortgageEvent).data.startDate)))) {
+              balance = this.getMortgageOutstanding(event as MortgageEvent, currentMonth, repaymentBalance);
+            }
+            break;
+          case 'car_loan':
+            // Payments stop at the end of the term
+            const carLoanPurchaseDate = carPurchaseDates.get(event.id!);
+            const isCarLoanRunning = carLoanPurchaseDate !== undefined && differenceInMonths(currentMonth, carLoanPurchaseDate) < (event as CarLoanEvent).data.years * 12;
+            balance = carValues.has(event.id!) && isCarLoanRunning ? carLoanBalances.get(event.id!) : undefined;
+            break;
+          case 'pcp':
+            balance = pcpBalances.get(event.id!);
+            break;
+          case 'loan':
+          case 'credit_card':
+            balance = loanBalances.get(event.id!);
+            break;
+          case 'student_loan':
+            balance = studentLoanBalances.get(event.id!);
+            break;
+        }
+        if (balance !== undefined && balance > 0.005) {
+          const convertedBalance = balance * this.getEventFxRate(event, currentMonth, options.currency);
+          liabilities.push({ eventId: event.id!, balance: Math.round(convertedBalance * 100) / 100 });
+        }
+      }
+      const totalLiabilities = liabilities.reduce((total, liability) => total + liability.balance, 0);
+      
+      // Value of the holdings tracked at the end of the month, on top of the opening assets
+      let grossAssets = openingBalances?.assets ?? 0;
+      for (const event of events) {
+        const holdingValue = propertyValues.get(event.id!) ?? carValues.get(event.id!) ?? investmentBalances.get(event.id!) ?? pensionBalances.get(event.id!);
+        if (holdingValue !== undefined) {
+          grossAssets += holdingValue * this.getEventFxRate(event, currentMonth, options.currency);
+        }
       }
       
       // Record data point for this month
@@ -126,53 +585,174 @@ export class FinancialCalculator {
         month: currentMonth.toISOString().split('T')[0],
         liquidity: Math.round(currentLiquidity * 100) / 100,
         assets: Math.round(currentAssets * 100) / 100,
+        grossAssets: Math.round(grossAssets * 100) / 100,
+        liabilities,
+        totalLiabilities: Math.round(totalLiabilities * 100) / 100,
+        netWorth: Math.round((currentLiquidity + currentAssets) * 100) / 100,
+        cashInterest: Math.round(cashInterest * 100) / 100,
+        ...(options.includeBreakdown && { breakdown }),
+        ...(options.includeCashflow && { cashflow }),
       });
     }
     
     return dataPoints;
   }
   
+  /**
+   * Interest earned on positive liquidity, or charged on an overdraft, for one month
+   * Overdrawn amounts beyond the arranged limit are charged at the unarranged rate
+   * @param liquidity Cash balance at the end of the month
+   * @param market Market conditions, moving the savings and overdraft rates
+   * @returns Interest to add to liquidity, negative when charged
+   */
+  private calculateCashInterest(liquidity: number, cashSettings: CashSettings | undefined, market: MarketConditions): number {
+    if (!cashSettings) {
+      return 0;
+    }
+    
+    const { savingsRate, overdraftLimit, overdraftRate, unarrangedOverdraftRate } = cashSettings;
+    const toRate = (rate: number | undefined) => rate ? Math.max(0, rate + market.interestRate) : 0;
+    
+    if (liquidity > 0) {
+      return liquidity * toRate(savingsRate) / 12;
+    }
+    
+    const overdrawn = -liquidity;
+    const arranged = Math.min(overdrawn, overdraftLimit ?? 0);
+    const unarranged = overdrawn - arranged;
+    return -(arranged * toRate(overdraftRate) + unarranged * toRate(unarrangedOverdraftRate ?? overdraftRate)) / 12;
+  }
+  
+  /**
+   * Rate converting an event's amounts into the base currency in a given month
+   * Events without a currency, or calculations without currency settings, are not converted
+   */
+  private getEventFxRate(event: Event, currentMonth: Date, currency: CurrencySettings | undefined): number {
+    return this.getCurrencyFxRate(event.currency, currentMonth, currency);
+  }
+  
+  /**
+   * Rate converting amounts in a currency into the base currency in a given month
+   * @param code Currency of the amounts, undefined for amounts already in the base currency
+   */
+  private getCurrencyFxRate(code: string | undefined, currentMonth: Date, currency: CurrencySettings | undefined): number {
+    if (!currency || !code) {
+      return 1;
+    }
+    
+    const rate = getFxRate(currency.fxRates, code, currency.baseCurrency, currentMonth);
+    if (rate === undefined) {
+      throw new Error(`No FX rate from ${code} to ${currency.baseCurrency}`);
+    }
+    return rate;
+  }
+  
+  /**
+   * Market conditions of the projection year a month falls in
+   */
+  private getMarketConditions(marketPath: MarketConditions[] | undefined, monthIndex: number): MarketConditions {
+    if (!marketPath || marketPath.length === 0) {
+      return EXPECTED_MARKET;
+    }
+    return marketPath[Math.min(Math.floor(monthIndex / 12), marketPath.length - 1)];
+  }
+  
   /**
    * Calculate income delta for a given month
+   * @param priceIndex Price level relative to the entered indexation, applied to escalating income
+   * @param taxYearGross Gross pay of each event per tax year, filled in as tax years are reached
+   */
+  private calculateIncomeDelta(event: IncomeEvent, currentMonth: Date, priceIndex: number, taxYearGross: Map<string, number>): DeltaResult {
+    const amount = this.getIncomeAmount(event, currentMonth, priceIndex);
+    
+    if (amount === 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    const netPay = this.toNetPay(event, amount, currentMonth, priceIndex, taxYearGross);
+    return { liquidityDelta: netPay, assetsDelta: 0, cashflow: { income: netPay } };
+  }
+  
+  /**
+   * Amount of an income event paid in a given month, before any gross-to-net conversion
+   * @param priceIndex Price level relative to the entered indexation, applied to escalating income
    */
-  private calculateIncomeDelta(event: IncomeEvent, currentMonth: Date): DeltaResult {
-    const { amount, isRecurrent, months, startDate, endDate } = event.data;
+  private getIncomeAmount(event: IncomeEvent, currentMonth: Date, priceIndex: number): number {
+    const { amount, isRecurrent, startDate, endDate, escalation } = event.data;
     const start = parseISO(startDate);
     
     // Check if current month is within date range
     if (isBefore(currentMonth, startOfMonth(start))) {
-      return { liquidityDelta: 0, assetsDelta: 0 };
+      return 0;
     }
     
     if (endDate) {
       const end = parseISO(endDate);
       if (isAfter(currentMonth, startOfMonth(end))) {
-        return { liquidityDelta: 0, assetsDelta: 0 };
+        return 0;
       }
     }
     
     // For one-off income
     if (!isRecurrent) {
-      if (isEqual(startOfMonth(currentMonth), startOfMonth(start))) {
-        return { liquidityDelta: amount, assetsDelta: 0 };
-      }
-      return { liquidityDelta: 0, assetsDelta: 0 };
+      return isEqual(startOfMonth(currentMonth), startOfMonth(start)) ? amount : 0;
+    }
+    
+    const occurrences = this.countRecurrentOccurrences(event.data, currentMonth);
+    return occurrences * applyEscalation(amount, escalation, start, currentMonth) * (escalation ? priceIndex : 1);
+  }
+  
+  /**
+   * Number of times a recurrent income or expense is paid in a given month
+   * Uses the recurrence rule when set, otherwise once in each of the listed months (every month when empty)
+   */
+  private countRecurrentOccurrences(data: IncomeEvent['data'] | ExpenseEvent['data'], currentMonth: Date): number {
+    if (data.recurrence) {
+      return countOccurrencesInMonth(data.recurrence, data.startDate, currentMonth);
     }
     
-    // For recurrent income, check if current month is in the months array
     const currentMonthNumber = currentMonth.getMonth() + 1; // 1-12
-    if (months.length === 0 || months.includes(currentMonthNumber)) {
-      return { liquidityDelta: amount, assetsDelta: 0 };
+    return data.months.length === 0 || data.months.includes(currentMonthNumber) ? 1 : 0;
+  }
+  
+  /**
+   * Convert gross salary to take-home pay, leaving amounts already entered as net unchanged
+   * Tax is worked out on everything the event pays in the tax year, so a one-off bonus or pay received
+   * only in some months is not taxed as if it were paid every month
+   * @param taxYearGross Gross pay of each event per tax year, filled in as tax years are reached
+   */
+  private toNetPay(event: IncomeEvent, amount: number, currentMonth: Date, priceIndex: number, taxYearGross: Map<string, number>): number {
+    const grossSalary = event.data.grossSalary;
+    if (!grossSalary) {
+      return amount;
     }
     
-    return { liquidityDelta: 0, assetsDelta: 0 };
+    const jurisdiction = getTaxJurisdiction(grossSalary.jurisdiction);
+    const taxYear = jurisdiction?.taxYearFor(currentMonth);
+    const key = `${event.id}:${taxYear}`;
+    if (jurisdiction && !taxYearGross.has(key)) {
+      // Payments in every month of the tax year this month falls into
+      let annualGross = 0;
+      for (let offset = -11; offset <= 11; offset++) {
+        const month = addMonths(currentMonth, offset);
+        if (jurisdiction.taxYearFor(month) === taxYear) {
+          annualGross += this.getIncomeAmount(event, month, priceIndex);
+        }
+      }
+      taxYearGross.set(key, annualGross);
+    }
+    
+    return calculateNetPay(amount, taxYearGross.get(key) ?? amount, grossSalary.jurisdiction, currentMonth, {
+      salarySacrificeRate: grossSalary.salarySacrificeRate,
+    });
   }
   
   /**
    * Calculate expense delta for a given month
+   * @param priceIndex Price level relative to the entered indexation, applied to escalating expenses
    */
-  private calculateExpenseDelta(event: ExpenseEvent, currentMonth: Date): DeltaResult {
-    const { amount, isRecurrent, months, startDate, endDate } = event.data;
+  private calculateExpenseDelta(event: ExpenseEvent, currentMonth: Date, priceIndex: number): DeltaResult {
+    const { amount, isRecurrent, startDate, endDate, escalation } = event.data;
     const start = parseISO(startDate);
     
     // Check if current month is within date range
@@ -190,15 +770,16 @@ export class FinancialCalculator {
     // For one-off expense
     if (!isRecurrent) {
       if (isEqual(startOfMonth(currentMonth), startOfMonth(start))) {
-        return { liquidityDelta: -amount, assetsDelta: 0 };
+        return { liquidityDelta: -amount, assetsDelta: 0, cashflow: { expenses: amount } };
       }
       return { liquidityDelta: 0, assetsDelta: 0 };
     }
     
-    // For recurrent expense, check if current month is in the months array
-    const currentMonthNumber = currentMonth.getMonth() + 1; // 1-12
-    if (months.length === 0 || months.includes(currentMonthNumber)) {
-      return { liquidityDelta: -amount, assetsDelta: 0 };
+    // For recurrent expense, paid once in each listed month or on each occurrence of its recurrence rule
+    const occurrences = this.countRecurrentOccurrences(event.data, currentMonth);
+    if (occurrences > 0) {
+      const escalatedAmount = occurrences * applyEscalation(amount, escalation, start, currentMonth) * (escalation ? priceIndex : 1);
+      return { liquidityDelta: -escalatedAmount, assetsDelta: 0, cashflow: { expenses: escalatedAmount } };
     }
     
     return { liquidityDelta: 0, assetsDelta: 0 };
@@ -206,9 +787,17 @@ export class FinancialCalculator {
   
   /**
    * Calculate mortgage delta for a given month
+   * @param currentPayment Amortized payment from the previous month, undefined before the first payment
+   * @param market Market conditions, moving the rate charged outside scheduled products
    */
-  private calculateMortgageDelta(event: MortgageEvent, currentMonth: Date, repaymentBalance: number): DeltaResult {
-    const { startDate, purchasePrice, loanedAmount, interestRate, repaymentPercentage, years } = event.data;
+  private calculateMortgageDelta(
+    event: MortgageEvent,
+    currentMonth: Date,
+    repaymentBalance: number,
+    currentPayment: MortgagePayment | undefined,
+    market: MarketConditions
+  ): DeltaResult {
+    const { startDate, purchasePrice, loanedAmount, repaymentPercentage, years } = event.data;
     const start = parseISO(startDate);
     const endDate = addMonths(start, years * 12);
     
@@ -217,13 +806,16 @@ export class FinancialCalculator {
       return { liquidityDelta: 0, assetsDelta: 0 };
     }
     
-    // Initial month: add deposit to assets
+    const productFees = this.getMortgageProductFees(event, currentMonth);
+    
+    // Initial month: the deposit moves from liquidity into assets
     if (isEqual(startOfMonth(currentMonth), startOfMonth(start))) {
       const deposit = purchasePrice - loanedAmount;
-      return { liquidityDelta: 0, assetsDelta: deposit, newBalance: repaymentBalance };
+      return { liquidityDelta: -deposit - productFees, assetsDelta: deposit, newBalance: repaymentBalance, cashflow: { expenses: productFees, deposits: deposit } };
     }
     
     // Calculate monthly payment
+    const interestRate = this.getMortgageRate(event, currentMonth, market);
     const monthlyRate = interestRate / 12;
     const totalMonths = years * 12;
     const repaymentAmount = loanedAmount * repaymentPercentage;
@@ -232,115 +824,783 @@ export class FinancialCalculator {
     // Interest-only payment
     const interestOnlyPayment = interestOnlyAmount * monthlyRate;
     
-    // Amortized payment
-    const amortizedPayment = repaymentAmount * (monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) / (Math.pow(1 + monthlyRate, totalMonths) - 1);
+    // Amortized payment, re-amortised over the remaining term when the rate changes
+    let payment = currentPayment ?? { amount: calculateAmortizedPayment(repaymentAmount, interestRate, totalMonths), rate: interestRate };
+    if (payment.rate !== interestRate) {
+      const remainingMonths = Math.max(1, totalMonths - differenceInMonths(currentMonth, startOfMonth(start)) + 1);
+      payment = { amount: calculateAmortizedPayment(repaymentBalance, interestRate, remainingMonths), rate: interestRate };
+    }
+    const amortizedPayment = payment.amount;
     
-    // Calculate principal repaid this month
+    // Calculate principal repaid this month, the final payment only clears what is left
     const interestPortion = repaymentBalance * monthlyRate;
-    const principalPortion = amortizedPayment - interestPortion;
+    const principalPortion = Math.min(amortizedPayment - interestPortion, repaymentBalance);
     const newBalance = Math.max(0, repaymentBalance - principalPortion);
     
-    const totalPayment = amortizedPayment + interestOnlyPayment;
+    // The interest-only part is repaid with the final payment
+    const interestOnlyRepaid = isEqual(startOfMonth(currentMonth), startOfMonth(endDate)) ? interestOnlyAmount : 0;
+    
+    const totalPayment = interestPortion + principalPortion + interestOnlyPayment + interestOnlyRepaid + productFees;
     
     return {
       liquidityDelta: -totalPayment,
-      assetsDelta: principalPortion,
+      assetsDelta: principalPortion + interestOnlyRepaid,
       newBalance,
+      newPayment: payment,
+      cashflow: {
+        expenses: productFees,
+        interestPaid: interestPortion + interestOnlyPayment,
+        principalRepaid: principalPortion + interestOnlyRepaid,
+      },
     };
   }
   
+  /**
+   * Annual interest rate of a mortgage in a given month
+   * Scheduled products take precedence, the mortgage interestRate moved by market conditions applies outside them
+   */
+  private getMortgageRate(event: MortgageEvent, currentMonth: Date, market: MarketConditions): number {
+    return this.getActiveRatePeriod(event.data.rateSchedule, currentMonth)?.rate ?? Math.max(0, event.data.interestRate + market.interestRate);
+  }
+  
+  /**
+   * Latest scheduled rate period covering a given month
+   */
+  private getActiveRatePeriod(rateSchedule: MortgageRatePeriod[] | undefined, currentMonth: Date): MortgageRatePeriod | undefined {
+    return [...(rateSchedule ?? [])]
+      .sort((a, b) => b.startDate.localeCompare(a.startDate))
+      .find((period) =>
+        !isBefore(currentMonth, startOfMonth(parseISO(period.startDate))) &&
+        (!period.endDate || isBefore(currentMonth, startOfMonth(parseISO(period.endDate))))
+      );
+  }
+  
+  /**
+   * Product fees due in a given month, for scheduled products starting that month
+   */
+  private getMortgageProductFees(event: MortgageEvent, currentMonth: Date): number {
+    return (event.data.rateSchedule ?? [])
+      .filter((period) => isEqual(startOfMonth(parseISO(period.startDate)), currentMonth))
+      .reduce((total, period) => total + (period.productFee ?? 0), 0);
+  }
+  
+  /**
+   * Calculate the change in value of the property bought with a mortgage
+   * Mortgage payments already add repaid principal to assets, so only appreciation (and, for
+   * properties owned before the plan start, the opening equity) is added here
+   * @param propertyValue Value carried from the previous month, undefined until the property is first seen
+   * @param repaymentBalance Outstanding repayment balance before this month's payment
+   */
+  private calculatePropertyDelta(event: MortgageEvent, currentMonth: Date, propertyValue: number | undefined, repaymentBalance: number): DeltaResult {
+    const { startDate, purchasePrice, propertyValue: currentMarketValue, appreciationRate } = event.data;
+    const start = startOfMonth(parseISO(startDate));
+    
+    if (isBefore(currentMonth, start)) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    if (propertyValue === undefined) {
+      // Purchase month: the deposit added by the mortgage is the opening equity
+      if (isEqual(currentMonth, start)) {
+        return { liquidityDelta: 0, assetsDelta: 0, newValue: purchasePrice };
+      }
+      
+      // Owned before the plan start: the debt owed before this month's payment is held against assets,
+      // and no property value is recorded unless a market value is given
+      const outstanding = this.getMortgageOutstanding(event, addMonths(currentMonth, -1), repaymentBalance);
+      if (currentMarketValue === undefined) {
+        return { liquidityDelta: 0, assetsDelta: -outstanding, newValue: 0 };
+      }
+      
+      return {
+        liquidityDelta: 0,
+        assetsDelta: currentMarketValue - outstanding,
+        newValue: currentMarketValue,
+      };
+    }
+    
+    // Monthly compounding of house price growth
+    const monthlyGrowthRate = toMonthlyGrowthRate(appreciationRate ?? 0);
+    const newValue = propertyValue * (1 + monthlyGrowthRate);
+    
+    return { liquidityDelta: 0, assetsDelta: newValue - propertyValue, newValue };
+  }
+  
+  /**
+   * Amount owed on a mortgage at the end of a month, including its interest-only part until it is repaid
+   * with the final payment, with nothing outstanding once the term has ended
+   * @param repaymentBalance Outstanding repayment balance
+   */
+  private getMortgageOutstanding(event: MortgageEvent, currentMonth: Date, repaymentBalance: number): number {
+    const { startDate, loanedAmount, repaymentPercentage, years } = event.data;
+    const endDate = addMonths(startOfMonth(parseISO(startDate)), years * 12);
+    if (isAfter(currentMonth, endDate)) {
+      return 0;
+    }
+    return isBefore(currentMonth, endDate) ? repaymentBalance + loanedAmount * (1 - repaymentPercentage) : repaymentBalance;
+  }
+  
   /**
    * Calculate mortgage repayment delta for a given month
+   * @param mortgage Parent mortgage event, needed to re-amortise the payment and apply early repayment charges
+   * @param allowance Remaining penalty-free overpayment allowance for the current mortgage year
+   * @param market Market conditions, needed to re-amortise at the rate the mortgage charges
    */
-  private calculateMortgageRepaymentDelta(event: MortgageRepaymentEvent, currentMonth: Date, repaymentBalance: number): DeltaResult {
-    const { date, amount } = event.data;
-    const repaymentDate = parseISO(date);
+  private calculateMortgageRepaymentDelta(
+    event: MortgageRepaymentEvent,
+    currentMonth: Date,
+    repaymentBalance: number,
+    mortgage: MortgageEvent | undefined,
+    allowance: number | undefined,
+    market: MarketConditions
+  ): DeltaResult {
+    const { date, amount, frequencyMonths, endDate, mode } = event.data;
+    const firstRepayment = startOfMonth(parseISO(date));
     
     // Check if repayment occurs in current month
-    if (!isEqual(startOfMonth(currentMonth), startOfMonth(repaymentDate))) {
+    if (isBefore(currentMonth, firstRepayment)) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    if (frequencyMonths) {
+      if (endDate && isAfter(currentMonth, startOfMonth(parseISO(endDate)))) {
+        return { liquidityDelta: 0, assetsDelta: 0 };
+      }
+      if (differenceInMonths(currentMonth, firstRepayment) % frequencyMonths !== 0) {
+        return { liquidityDelta: 0, assetsDelta: 0 };
+      }
+    } else if (!isEqual(currentMonth, firstRepayment)) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    // Overpayments cannot exceed the outstanding balance
+    const overpayment = Math.min(amount, repaymentBalance);
+    if (overpayment <= 0) {
       return { liquidityDelta: 0, assetsDelta: 0 };
     }
     
     // Reduce balance
-    const newBalance = Math.max(0, repaymentBalance - amount);
+    const newBalance = repaymentBalance - overpayment;
+    const result: DeltaResult = {
+      liquidityDelta: -overpayment,
+      assetsDelta: overpayment,
+      newBalance,
+      cashflow: { principalRepaid: overpayment },
+    };
+    
+    if (!mortgage) {
+      return result;
+    }
+    
+    // Early repayment charge on the part above the annual allowance
+    const charge = mortgage.data.earlyRepaymentCharge;
+    if (charge && allowance !== undefined && this.isEarlyRepaymentChargeActive(mortgage, currentMonth)) {
+      const excess = Math.max(0, overpayment - allowance);
+      result.liquidityDelta -= excess * charge.chargeRate;
+      result.cashflow!.expenses = excess * charge.chargeRate;
+      result.newAllowance = Math.max(0, allowance - overpayment);
+    }
+    
+    // Lower the payment so the reduced balance is still repaid over the remaining term
+    if (mode === 'reduce_payment') {
+      const { startDate, years } = mortgage.data;
+      const remainingMonths = years * 12 - differenceInMonths(currentMonth, startOfMonth(parseISO(startDate)));
+      if (remainingMonths > 0) {
+        const rate = this.getMortgageRate(mortgage, currentMonth, market);
+        result.newPayment = { amount: calculateAmortizedPayment(newBalance, rate, remainingMonths), rate };
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Penalty-free overpayment allowance of a mortgage, reset at the start of each mortgage year
+   * @param mortgageBalance Outstanding repayment balance before this month's payment
+   * @param currentAllowance Allowance left from earlier in the mortgage year
+   * @returns Allowance for this month, or undefined when no early repayment charge applies
+   */
+  private calculateOverpaymentAllowance(event: MortgageEvent, currentMonth: Date, mortgageBalance: number, currentAllowance: number | undefined): number | undefined {
+    const charge = event.data.earlyRepaymentCharge;
+    const start = startOfMonth(parseISO(event.data.startDate));
+    
+    if (!charge || isBefore(currentMonth, start) || !this.isEarlyRepaymentChargeActive(event, currentMonth)) {
+      return undefined;
+    }
+    
+    const isNewMortgageYear = differenceInMonths(currentMonth, start) % 12 === 0;
+    if (currentAllowance === undefined || isNewMortgageYear) {
+      return mortgageBalance * charge.allowanceRate;
+    }
+    
+    return currentAllowance;
+  }
+  
+  /**
+   * Whether overpayments above the allowance are charged in a given month
+   */
+  private isEarlyRepaymentChargeActive(event: MortgageEvent, currentMonth: Date): boolean {
+    const charge = event.data.earlyRepaymentCharge;
+    return !!charge && (!charge.endDate || isBefore(currentMonth, startOfMonth(parseISO(charge.endDate))));
+  }
+  
+  /**
+   * Calculate property sale delta for a given month
+   * The outstanding mortgage is redeemed from the proceeds, so its debt is no longer held against assets,
+   * the tracked property value leaves assets and the net proceeds are credited to liquidity
+   * @param propertyValue Tracked value of the property, undefined before the mortgage starts
+   *   and 0 for a property owned before the plan start without a market value, whose equity was never added
+   * @param allowance Remaining penalty-free overpayment allowance, used to charge ERC on redemption
+   */
+  private calculatePropertySaleDelta(
+    event: PropertySaleEvent,
+    currentMonth: Date,
+    mortgage: MortgageEvent,
+    repaymentBalance: number,
+    propertyValue: number | undefined,
+    allowance: number | undefined
+  ): DeltaResult {
+    const { date, salePrice, sellingCosts } = event.data;
+    
+    if (!isEqual(currentMonth, startOfMonth(parseISO(date))) || propertyValue === undefined) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    const outstanding = this.getMortgageOutstanding(mortgage, currentMonth, repaymentBalance);
+    
+    // Redeeming during an early repayment charge period is charged like an overpayment
+    const charge = mortgage.data.earlyRepaymentCharge;
+    const earlyRepaymentCharge = charge && this.isEarlyRepaymentChargeActive(mortgage, currentMonth)
+      ? Math.max(0, outstanding - (allowance ?? 0)) * charge.chargeRate
+      : 0;
     
     return {
-      liquidityDelta: -amount,
-      assetsDelta: amount,
-      newBalance,
+      liquidityDelta: salePrice - sellingCosts - outstanding - earlyRepaymentCharge,
+      assetsDelta: outstanding - propertyValue,
+      newBalance: 0,
+      cashflow: { expenses: sellingCosts + earlyRepaymentCharge, principalRepaid: outstanding, saleProceeds: salePrice },
     };
   }
   
   /**
    * Calculate PCP delta for a given month
+   * @param agreement Agreement currently running for the PCP event
+   * @param carValue Value of the car held in assets, undefined until the car is first seen
    */
-  private calculatePCPDelta(event: PCPEvent, _currentMonth: Date, monthsSincePurchase: number): DeltaResult {
-    const { purchasePrice, deposit, years, residualValue, interestRate } = event.data;
+  private calculatePCPDelta(agreement: PCPAgreement, currentMonth: Date, carValue: number | undefined): DeltaResult {
+    const { startMonth, purchasePrice, deposit, years, residualValue, interestRate, depreciation, endOfTerm } = agreement;
+    const monthsSincePurchase = differenceInMonths(currentMonth, startMonth);
+    const termMonths = years * 12;
+    const option = endOfTerm?.option ?? 'hand_back';
     
-    // Placeholder - needs start date in event data
-    // For now, assume PCP starts at current month if monthsSincePurchase === 0
-    if (monthsSincePurchase < 0 || monthsSincePurchase >= years * 12) {
+    if (monthsSincePurchase < 0) {
       return { liquidityDelta: 0, assetsDelta: 0 };
     }
     
-    // Initial month: add initial asset value
+    // Initial month: the car is held against the finance taken out for it
+    const initialValue = purchasePrice - deposit;
     if (monthsSincePurchase === 0) {
-      const initialAssetValue = purchasePrice - deposit;
-      return { liquidityDelta: -deposit, assetsDelta: initialAssetValue };
+      return { liquidityDelta: -deposit, assetsDelta: 0, newValue: initialValue, newBalance: initialValue, cashflow: { deposits: deposit } };
+    }
+    
+    // Car already on finance before the plan start: its depreciated value is an existing holding
+    const currentValue = carValue ?? this.getDepreciatedCarValue(initialValue, purchasePrice, monthsSincePurchase - 1, depreciation);
+    
+    // After the term only a car kept by paying the balloon remains, and it keeps depreciating
+    if (monthsSincePurchase > termMonths) {
+      if (option !== 'pay_balloon') {
+        return { liquidityDelta: 0, assetsDelta: 0, newValue: 0, newBalance: 0 };
+      }
+      const newValue = depreciateCarValue(currentValue, initialValue, purchasePrice, monthsSincePurchase, depreciation);
+      return { liquidityDelta: 0, assetsDelta: newValue - (carValue ?? 0), newValue, newBalance: 0, cashflow: { depreciation: currentValue - newValue } };
     }
     
     // Calculate monthly PCP payment
-    const loanedAmount = purchasePrice - deposit;
-    const amountToFinance = loanedAmount - residualValue;
-    const monthlyRate = interestRate / 12;
-    const totalMonths = years * 12;
-    const monthlyPayment = amountToFinance * (monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) / (Math.pow(1 + monthlyRate, totalMonths) - 1);
+    const amountToFinance = initialValue - residualValue;
+    const monthlyPayment = calculateAmortizedPayment(amountToFinance, interestRate, termMonths);
+    const amortizedBalance = calculateAmortizedBalance(amountToFinance, interestRate, termMonths, monthsSincePurchase - 1);
+    const interestPortion = amortizedBalance * interestRate / 12;
+    
+    // A car first seen after its purchase is held against the finance still owed on it
+    const openingEquity = carValue === undefined ? currentValue - amortizedBalance - residualValue : 0;
+    
+    // The final monthly payment is made alongside the end-of-term choice
+    if (monthsSincePurchase === termMonths) {
+      const endOfTermDelta = this.calculatePCPEndOfTermDelta(agreement, currentMonth, currentValue);
+      return {
+        ...endOfTermDelta,
+        liquidityDelta: endOfTermDelta.liquidityDelta - monthlyPayment,
+        assetsDelta: openingEquity + endOfTermDelta.assetsDelta + monthlyPayment - interestPortion,
+        cashflow: {
+          ...endOfTermDelta.cashflow,
+          interestPaid: interestPortion,
+          principalRepaid: (endOfTermDelta.cashflow?.principalRepaid ?? 0) + monthlyPayment - interestPortion,
+        },
+      };
+    }
     
     // Calculate depreciation
-    const depreciation = calculateCarDepreciation(purchasePrice, monthsSincePurchase);
+    const newValue = depreciateCarValue(currentValue, initialValue, purchasePrice, monthsSincePurchase, depreciation);
     
     return {
       liquidityDelta: -monthlyPayment,
-      assetsDelta: -depreciation,
+      assetsDelta: openingEquity + monthlyPayment - interestPortion + newValue - currentValue,
+      newValue,
+      newBalance: calculateAmortizedBalance(amountToFinance, interestRate, termMonths, monthsSincePurchase) + residualValue,
+      cashflow: {
+        interestPaid: interestPortion,
+        principalRepaid: monthlyPayment - interestPortion,
+        depreciation: currentValue - newValue,
+      },
     };
   }
   
+  /**
+   * Apply the end-of-term choice of a PCP agreement
+   * The optional final payment still owed is cleared whichever option is taken
+   * @param carValue Value of the car held in assets at the end of the term
+   */
+  private calculatePCPEndOfTermDelta(agreement: PCPAgreement, currentMonth: Date, carValue: number): DeltaResult {
+    const { residualValue, depreciation, endOfTerm } = agreement;
+    
+    switch (endOfTerm?.option ?? 'hand_back') {
+      case 'pay_balloon':
+        // Keep the car by paying the optional final payment
+        return { liquidityDelta: -residualValue, assetsDelta: residualValue, newValue: carValue, newBalance: 0, cashflow: { principalRepaid: residualValue } };
+        
+      case 'part_exchange':
+        const next = endOfTerm?.nextAgreement;
+        if (next) {
+          // Positive equity becomes the next deposit, negative equity is settled in cash
+          const equity = carValue - residualValue;
+          const additionalDeposit = next.additionalDeposit ?? 0;
+          const nextDeposit = Math.max(0, equity) + additionalDeposit;
+          const nextAssetValue = next.purchasePrice - nextDeposit;
+          
+          return {
+            liquidityDelta: -additionalDeposit + Math.min(0, equity),
+            assetsDelta: residualValue - carValue,
+            newValue: nextAssetValue,
+            newBalance: next.purchasePrice - nextDeposit,
+            cashflow: { deposits: additionalDeposit, principalRepaid: Math.max(0, -equity) },
+            nextAgreement: {
+              startMonth: currentMonth,
+              purchasePrice: next.purchasePrice,
+              deposit: nextDeposit,
+              years: next.years,
+              residualValue: next.residualValue,
+              interestRate: next.interestRate,
+              depreciation: next.depreciation ?? depreciation,
+              endOfTerm: next.endOfTerm,
+            },
+          };
+        }
+        // Without a next agreement the car is simply returned
+        return { liquidityDelta: 0, assetsDelta: residualValue - carValue, newValue: 0, newBalance: 0 };
+        
+      case 'hand_back':
+        const excessMileageCharge = endOfTerm?.excessMileageCharge ?? 0;
+        return { liquidityDelta: -excessMileageCharge, assetsDelta: residualValue - carValue, newValue: 0, newBalance: 0, cashflow: { expenses: excessMileageCharge } };
+    }
+  }
+  
+  /**
+   * Value of a car after its first months of depreciation
+   * @param initialValue Value recorded in the purchase month
+   * @param months Number of months of depreciation already applied
+   */
+  private getDepreciatedCarValue(initialValue: number, purchasePrice: number, months: number, depreciation?: VehicleDepreciation): number {
+    let value = initialValue;
+    for (let month = 1; month <= months; month++) {
+      value = depreciateCarValue(value, initialValue, purchasePrice, month, depreciation);
+    }
+    return value;
+  }
+  
   /**
    * Calculate car loan delta for a given month
+   * The car keeps depreciating once the loan is repaid
+   * @param carValue Value of the car held in assets, undefined until the car is first seen
    */
-  private calculateCarLoanDelta(event: CarLoanEvent, _currentMonth: Date, monthsSincePurchase: number, loanBalance: number): DeltaResult {
-    const { purchasePrice, deposit, years, interestRate } = event.data;
+  private calculateCarLoanDelta(event: CarLoanEvent, _currentMonth: Date, monthsSincePurchase: number, loanBalance: number, carValue: number | undefined): DeltaResult {
+    const { purchasePrice, deposit, years, interestRate, depreciation } = event.data;
     
-    // Placeholder - needs start date in event data
-    if (monthsSincePurchase < 0 || monthsSincePurchase >= years * 12) {
+    if (monthsSincePurchase < 0) {
       return { liquidityDelta: 0, assetsDelta: 0 };
     }
     
-    // Initial month: add initial asset value
+    // Initial month: the car is held against the loan taken out for it
+    const initialValue = purchasePrice - deposit;
     if (monthsSincePurchase === 0) {
-      const initialAssetValue = purchasePrice - deposit;
-      return { liquidityDelta: -deposit, assetsDelta: initialAssetValue, newBalance: purchasePrice - deposit };
+      return { liquidityDelta: -deposit, assetsDelta: 0, newBalance: initialValue, newValue: initialValue, cashflow: { deposits: deposit } };
+    }
+    
+    // Calculate depreciation, estimating the value of a car bought before the plan start
+    const currentValue = carValue ?? this.getDepreciatedCarValue(initialValue, purchasePrice, monthsSincePurchase - 1, depreciation);
+    const newValue = depreciateCarValue(currentValue, initialValue, purchasePrice, monthsSincePurchase, depreciation);
+    
+    // Only depreciation is left once the final payment has been made at the end of the term
+    if (monthsSincePurchase > years * 12) {
+      return { liquidityDelta: 0, assetsDelta: newValue - (carValue ?? 0), newValue, cashflow: { depreciation: currentValue - newValue } };
     }
     
+    // A car first seen after its purchase is held against the loan still owed on it
+    const openingEquity = carValue === undefined ? currentValue - loanBalance : 0;
+    
     // Calculate monthly payment
     const monthlyRate = interestRate / 12;
-    const totalMonths = years * 12;
     const loanAmount = purchasePrice - deposit;
-    const monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) / (Math.pow(1 + monthlyRate, totalMonths) - 1);
+    const monthlyPayment = calculateAmortizedPayment(loanAmount, interestRate, years * 12);
     
     // Calculate principal repaid this month
     const interestPortion = loanBalance * monthlyRate;
     const principalPortion = monthlyPayment - interestPortion;
     const newBalance = Math.max(0, loanBalance - principalPortion);
     
-    // Calculate depreciation
-    const depreciation = calculateCarDepreciation(purchasePrice, monthsSincePurchase);
-    
     return {
       liquidityDelta: -monthlyPayment,
-      assetsDelta: principalPortion - depreciation,
+      assetsDelta: openingEquity + principalPortion + newValue - currentValue,
       newBalance,
+      newValue,
+      cashflow: {
+        interestPaid: interestPortion,
+        principalRepaid: principalPortion,
+        depreciation: currentValue - newValue,
+      },
     };
   }
+  
+  /**
+   * Calculate personal loan delta for a given month
+   * The principal is paid into liquidity and the outstanding balance is held against assets
+   * @param loanBalance Balance carried from the previous month, undefined until the loan is first seen
+   */
+  private calculateLoanDelta(event: LoanEvent, currentMonth: Date, loanBalance: number | undefined): DeltaResult {
+    const { startDate, principal, interestRate, termMonths, paymentHoliday } = event.data;
+    const monthsSinceStart = differenceInMonths(currentMonth, startOfMonth(parseISO(startDate)));
+    
+    if (monthsSinceStart < 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    if (monthsSinceStart === 0) {
+      return { liquidityDelta: principal, assetsDelta: -principal, newBalance: principal, cashflow: { borrowing: principal } };
+    }
+    
+    const balance = loanBalance ?? principal;
+    if (balance <= 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    const interest = balance * interestRate / 12;
+    
+    // Interest is added to the balance during a payment holiday
+    let holidayMonthsTaken = 0;
+    if (paymentHoliday) {
+      const monthsIntoHoliday = differenceInMonths(currentMonth, startOfMonth(parseISO(paymentHoliday.startDate)));
+      if (monthsIntoHoliday >= 0 && monthsIntoHoliday < paymentHoliday.months) {
+        return { liquidityDelta: 0, assetsDelta: -interest, newBalance: balance + interest };
+      }
+      holidayMonthsTaken = Math.max(0, Math.min(monthsIntoHoliday, paymentHoliday.months));
+    }
+    
+    // Re-amortise over the payments left so a holiday extends the term
+    const paymentsMade = monthsSinceStart - 1 - holidayMonthsTaken;
+    const remainingPayments = termMonths - paymentsMade;
+    if (remainingPayments <= 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    const payment = calculateAmortizedPayment(balance, interestRate, remainingPayments);
+    const principalPortion = Math.min(payment - interest, balance);
+    
+    return {
+      liquidityDelta: -payment,
+      assetsDelta: principalPortion,
+      newBalance: balance - principalPortion,
+      cashflow: { interestPaid: payment - principalPortion, principalRepaid: principalPortion },
+    };
+  }
+  
+  /**
+   * Calculate credit card delta for a given month
+   * The carried balance is held against assets and paid down by the minimum or a fixed payment
+   * @param cardBalance Balance carried from the previous month, undefined until the card is first seen
+   * @param market Market conditions, moving the APR
+   */
+  private calculateCreditCardDelta(event: CreditCardEvent, currentMonth: Date, cardBalance: number | undefined, market: MarketConditions): DeltaResult {
+    const { startDate, openingBalance, interestRate, minimumPayment, fixedPayment, promotionalEndDate } = event.data;
+    const monthsSinceStart = differenceInMonths(currentMonth, startOfMonth(parseISO(startDate)));
+    
+    if (monthsSinceStart < 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    if (monthsSinceStart === 0) {
+      return { liquidityDelta: 0, assetsDelta: -openingBalance, newBalance: openingBalance };
+    }
+    
+    const balance = cardBalance ?? openingBalance;
+    if (balance <= 0) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    // No interest during the promotional period
+    const isPromotional = promotionalEndDate !== undefined && isBefore(currentMonth, startOfMonth(parseISO(promotionalEndDate)));
+    const interest = isPromotional ? 0 : balance * Math.max(0, interestRate + market.interestRate) / 12;
+    
+    const minimum = minimumPayment ? Math.max(minimumPayment.floor, balance * minimumPayment.rate + interest) : 0;
+    const payment = Math.min(fixedPayment ?? minimum, balance + interest);
+    
+    return {
+      liquidityDelta: -payment,
+      assetsDelta: payment - interest,
+      newBalance: balance + interest - payment,
+      cashflow: { interestPaid: Math.min(payment, interest), principalRepaid: Math.max(0, payment - interest) },
+    };
+  }
+  
+  /**
+   * Calculate investment account delta for a given month
+   * Contributions move money from liquidity into assets, growth compounds monthly inside assets
+   * @param accountBalance Balance carried from the previous month, undefined until the account is first seen
+   * @param market Market conditions, moving the growth rate
+   */
+  private calculateInvestmentDelta(event: InvestmentEvent, currentMonth: Date, accountBalance: number | undefined, market: MarketConditions): DeltaResult {
+    const { startDate, openingBalance, contributions, annualGrowthRate, withdrawals, endDate } = event.data;
+    const start = startOfMonth(parseISO(startDate));
+    
+    // Check if account is open
+    if (isBefore(currentMonth, start)) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    if (endDate && isAfter(currentMonth, startOfMonth(parseISO(endDate)))) {
+      return { liquidityDelta: 0, assetsDelta: 0 };
+    }
+    
+    let balance: number;
+    let liquidityDelta = 0;
+    let assetsDelta = 0;
+    let growth = 0;
+    let contributed = 0;
+    let withdrawn = 0;
+    
+    if (isEqual(currentMonth, start)) {
+      // Opening month: fund the account from liquidity
+      balance = openingBalance;
+      liquidityDelta -= openingBalance;
+      assetsDelta += openingBalance;
+      contributed += openingBalance;
+    } else if (accountBalance === undefined) {
+      // Account already open on the plan start date: opening balance is an existing holding
+      balance = openingBalance;
+      assetsDelta += openingBalance;
+    } else {
+      // Monthly compounding of the annual growth rate
+      const monthlyGrowthRate = toMonthlyGrowthRate(annualGrowthRate + market.investmentReturn);
+      growth = accountBalance * monthlyGrowthRate;
+      balance = accountBalance + growth;
+      assetsDelta += growth;
+    }
+    
+    // Contribution from the latest schedule entry that has taken effect
+    const activeContribution = [...contributions]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate))
+      .filter((contribution) => !isAfter(startOfMonth(parseISO(contribution.startDate)), currentMonth))
+      .pop();
+    if (activeContribution) {
+      balance += activeContribution.amount;
+      liquidityDelta -= activeContribution.amount;
+      assetsDelta += activeContribution.amount;
+      contributed += activeContribution.amount;
+    }
+    
+    // Withdrawals are limited to the available balance
+    for (const withdrawal of withdrawals ?? []) {
+      if (isEqual(startOfMonth(parseISO(withdrawal.date)), currentMonth)) {
+        const amount = Math.min(withdrawal.amount, balance);
+        balance -= amount;
+        liquidityDelta += amount;
+        assetsDelta -= amount;
+        withdrawn += amount;
+      }
+    }
+    
+    // Closing month: withdraw the remaining balance
+    if (endDate && isEqual(startOfMonth(parseISO(endDate)), currentMonth)) {
+      liquidityDelta += balance;
+      assetsDelta -= balance;
+      withdrawn += balance;
+      balance = 0;
+    }
+    
+    return { liquidityDelta, assetsDelta, newBalance: balance, cashflow: { contributions: contributed, withdrawals: withdrawn, investmentGrowth: growth } };
+  }
+  
+  /**
+   * Calculate pension delta for a given month
+   * Before the access date contributions and growth build the pot; from drawdown the pot pays an income
+   * @param potValue Pot value carried from the previous month
+   * @param linkedIncome Income event contributions are based on, if any
+   * @param isFirstMonth Whether this is the first projected month, when the opening balance is added to assets
+   * @param market Market conditions, moving the growth rate
+   * @param priceIndex Price level relative to the entered indexation, applied to the linked income
+   */
+  private calculatePensionDelta(
+    event: PensionEvent,
+    currentMonth: Date,
+    potValue: number,
+    linkedIncome: IncomeEvent | undefined,
+    isFirstMonth: boolean,
+    market: MarketConditions,
+    priceIndex: number
+  ): DeltaResult {
+    const { employeeContributionRate, employerContributionRate, taxReliefRate, annualGrowthRate, drawdown } = event.data;
+    
+    let balance = potValue;
+    let liquidityDelta = 0;
+    let assetsDelta = 0;
+    let growth = 0;
+    let employeeContribution = 0;
+    let withdrawal = 0;
+    
+    if (isFirstMonth) {
+      // Opening balance is an existing holding on the plan start date
+      assetsDelta += balance;
+    } else {
+      // Monthly compounding of the annual growth rate
+      const monthlyGrowthRate = toMonthlyGrowthRate(annualGrowthRate + market.investmentReturn);
+      growth = balance * monthlyGrowthRate;
+      balance += growth;
+      assetsDelta += growth;
+    }
+    
+    // Drawdown cannot start before the pot can be accessed
+    const accessDate = this.getPensionAccessDate(event);
+    const requestedStart = drawdown?.startDate ? startOfMonth(parseISO(drawdown.startDate)) : accessDate;
+    const drawdownStart = isBefore(requestedStart, accessDate) ? accessDate : requestedStart;
+    
+    // Contributions until the pot can be accessed
+    if (linkedIncome && isBefore(currentMonth, accessDate)) {
+      const pay = this.getIncomeAmount(linkedIncome, currentMonth, priceIndex);
+      employeeContribution = pay * employeeContributionRate;
+      const taxRelief = employeeContribution * taxReliefRate;
+      const employerContribution = pay * employerContributionRate;
+      const salarySacrifice = linkedIncome.data.grossSalary ? pay * (linkedIncome.data.grossSalary.salarySacrificeRate ?? 0) : 0;
+      
+      // Salary sacrifice has already been taken out of take-home pay by the income event
+      const contribution = employeeContribution + taxRelief + employerContribution + salarySacrifice;
+      balance += contribution;
+      liquidityDelta -= employeeContribution;
+      assetsDelta += contribution;
+    }
+    
+    // Drawdown income until the pot runs out, taxed on the drawdown planned across the tax year
+    let netWithdrawal = 0;
+    if (drawdown && !isBefore(currentMonth, drawdownStart)) {
+      withdrawal = Math.min(drawdown.monthlyAmount, balance);
+      const jurisdictionCode = drawdown.jurisdiction ?? ukJurisdiction.code;
+      const jurisdiction = getTaxJurisdiction(jurisdictionCode);
+      let annualDrawdown = 0;
+      for (let offset = -11; offset <= 11; offset++) {
+        const month = addMonths(currentMonth, offset);
+        if (jurisdiction?.taxYearFor(month) === jurisdiction?.taxYearFor(currentMonth) && !isBefore(month, drawdownStart)) {
+          annualDrawdown += drawdown.monthlyAmount;
+        }
+      }
+      netWithdrawal = calculateNetPensionIncome(withdrawal, annualDrawdown, jurisdictionCode, currentMonth);
+      balance -= withdrawal;
+      liquidityDelta += netWithdrawal;
+      assetsDelta -= withdrawal;
+    }
+    
+    return { liquidityDelta, assetsDelta, newBalance: balance, cashflow: { income: netWithdrawal, contributions: employeeContribution, investmentGrowth: growth } };
+  }
+  
+  /**
+   * First month a pension pot can be accessed, from an explicit date or from date of birth and access age
+   */
+  private getPensionAccessDate(event: PensionEvent): Date {
+    const { accessDate, dateOfBirth, accessAge } = event.data;
+    
+    if (accessDate) {
+      return startOfMonth(parseISO(accessDate));
+    }
+    
+    return startOfMonth(addYears(parseISO(dateOfBirth!), accessAge!));
+  }
+  
+  /**
+   * Calculate UK student loan delta for a given month
+   * Repayments are a share of the linked income above the plan threshold, the balance is held against assets
+   * @param loanBalance Balance carried from the previous month (the opening balance in the first month)
+   * @param linkedIncome Income event repayments are taken from
+   * @param isFirstMonth Whether this is the first month the loan is projected
+   * @param market Market conditions, moving RPI
+   * @param priceIndex Price level relative to the entered indexation, applied to the linked income
+   */
+  private calculateStudentLoanDelta(
+    event: StudentLoanEvent,
+    currentMonth: Date,
+    loanBalance: number,
+    linkedIncome: IncomeEvent | undefined,
+    isFirstMonth: boolean,
+    market: MarketConditions,
+    priceIndex: number
+  ): DeltaResult {
+    const { plan, rpiRate, interestRate, firstRepaymentDate } = event.data;
+    
+    let balance = loanBalance;
+    let liquidityDelta = 0;
+    // Opening balance is an existing liability on the plan start date
+    let assetsDelta = isFirstMonth ? -balance : 0;
+    
+    if (balance <= 0) {
+      return { liquidityDelta, assetsDelta, newBalance: balance };
+    }
+    
+    // Whatever is left is written off at the end of the plan's term
+    if (!isBefore(currentMonth, this.getStudentLoanWriteOffDate(event))) {
+      return { liquidityDelta, assetsDelta: assetsDelta + balance, newBalance: 0 };
+    }
+    
+    const rules = getUkStudentLoanRules(ukJurisdiction.taxYearFor(currentMonth));
+    const pay = linkedIncome ? this.getIncomeAmount(linkedIncome, currentMonth, priceIndex) : 0;
+    const earnings = pay * (1 - (linkedIncome?.data.grossSalary?.salarySacrificeRate ?? 0));
+    
+    let interest = 0;
+    if (!isFirstMonth) {
+      const annualRate = interestRate ?? calculateUkStudentLoanInterestRate(plan, earnings * 12, rpiRate + market.inflation, rules);
+      interest = balance * annualRate / 12;
+      balance += interest;
+      assetsDelta -= interest;
+    }
+    
+    let repayment = 0;
+    if (!isBefore(currentMonth, startOfMonth(parseISO(firstRepaymentDate)))) {
+      repayment = Math.min(calculateUkStudentLoanRepayment(earnings, plan, rules), balance);
+      balance -= repayment;
+      liquidityDelta -= repayment;
+      assetsDelta += repayment;
+    }
+    
+    return {
+      liquidityDelta,
+      assetsDelta,
+      newBalance: balance,
+      cashflow: { interestPaid: Math.min(repayment, interest), principalRepaid: Math.max(0, repayment - interest) },
+    };
+  }
+  
+  /**
+   * Get the month a student loan is written off
+   */
+  private getStudentLoanWriteOffDate(event: StudentLoanEvent): Date {
+    const { plan, firstRepaymentDate, writeOffDate } = event.data;
+    if (writeOffDate) {
+      return startOfMonth(parseISO(writeOffDate));
+    }
+    return addYears(startOfMonth(parseISO(firstRepaymentDate)), UK_STUDENT_LOAN_WRITE_OFF_YEARS[plan]);
+  }
 }
-
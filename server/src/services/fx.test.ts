@@ -0,0 +1,66 @@
+/**
+ * Tests for FX rate conversion
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { findMissingFxRate, getFxRate } from './fx';
+import { FxRate } from '../models/fx-rate';
+import { ExpenseEvent } from '../models/events';
+
+describe('FX rates', () => {
+  const eurGbp: FxRate = {
+    id: 1,
+    userId: 1,
+    fromCurrency: 'EUR',
+    toCurrency: 'GBP',
+    rate: 0.85,
+    ratePath: [
+      { date: '2026-01-01', rate: 0.9 },
+      { date: '2027-06-15', rate: 0.8 },
+    ],
+  };
+
+  describe('getFxRate', () => {
+    it('should use the rate until the first dated rate takes effect', () => {
+      expect(getFxRate([eurGbp], 'EUR', 'GBP', new Date(2025, 11, 1))).to.equal(0.85);
+      expect(getFxRate([eurGbp], 'EUR', 'GBP', new Date(2026, 0, 1))).to.equal(0.9);
+    });
+
+    it('should apply dated rates from the month they fall in', () => {
+      expect(getFxRate([eurGbp], 'EUR', 'GBP', new Date(2027, 4, 1))).to.equal(0.9);
+      expect(getFxRate([eurGbp], 'EUR', 'GBP', new Date(2027, 5, 1))).to.equal(0.8);
+      expect(getFxRate([eurGbp], 'EUR', 'GBP', new Date(2035, 0, 1))).to.equal(0.8);
+    });
+
+    it('should invert a pair entered the other way round', () => {
+      expect(getFxRate([eurGbp], 'GBP', 'EUR', new Date(2025, 0, 1))).to.equal(1 / 0.85);
+    });
+
+    it('should not convert a currency into itself', () => {
+      expect(getFxRate([], 'USD', 'USD', new Date(2025, 0, 1))).to.equal(1);
+    });
+
+    it('should return undefined without a rate', () => {
+      expect(getFxRate([eurGbp], 'USD', 'GBP', new Date(2025, 0, 1))).to.equal(undefined);
+    });
+  });
+
+  describe('findMissingFxRate', () => {
+    const expense = (id: number, currency?: string): ExpenseEvent => ({
+      id,
+      planId: 1,
+      type: 'expense',
+      currency,
+      data: { amount: 100, isRecurrent: true, months: [], startDate: '2025-01-01' },
+    });
+
+    it('should find currencies without a rate to the base currency', () => {
+      const events = [expense(1), expense(2, 'GBP'), expense(3, 'EUR'), expense(4, 'USD')];
+
+      expect(findMissingFxRate(events, { baseCurrency: 'GBP', fxRates: [eurGbp] })).to.equal('USD');
+      expect(findMissingFxRate(events.slice(0, 3), { baseCurrency: 'GBP', fxRates: [eurGbp] })).to.equal(undefined);
+      expect(findMissingFxRate(events.slice(0, 3), { baseCurrency: 'EUR', fxRates: [eurGbp] })).to.equal(undefined);
+    });
+  });
+});
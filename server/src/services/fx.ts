@@ -0,0 +1,61 @@
+import { FxRate } from '../models/fx-rate';
+import { Event } from '../models/events';
+import { parseISO, startOfMonth, isAfter } from 'date-fns';
+
+// Three-letter ISO 4217 currency code
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Currency a projection is reported in and the rates used to convert events into it
+ */
+export interface CurrencySettings {
+  baseCurrency: string;
+  fxRates: FxRate[];
+}
+
+/**
+ * Rate of an FX pair in a month: the latest dated rate that has taken effect, or the pair's rate before any
+ */
+const getPairRate = (fxRate: FxRate, month: Date): number => {
+  let rate = fxRate.rate;
+  for (const point of fxRate.ratePath) {
+    if (isAfter(startOfMonth(parseISO(point.date)), month)) {
+      break;
+    }
+    rate = point.rate;
+  }
+  return rate;
+};
+
+/**
+ * Rate converting an amount from one currency into another in a given month
+ * Uses the pair entered in either direction
+ * @returns Units of toCurrency per unit of fromCurrency, undefined when no rate is entered
+ */
+export const getFxRate = (fxRates: FxRate[], fromCurrency: string, toCurrency: string, month: Date): number | undefined => {
+  if (fromCurrency === toCurrency) {
+    return 1;
+  }
+
+  const direct = fxRates.find((fxRate) => fxRate.fromCurrency === fromCurrency && fxRate.toCurrency === toCurrency);
+  if (direct) {
+    return getPairRate(direct, month);
+  }
+
+  const inverse = fxRates.find((fxRate) => fxRate.fromCurrency === toCurrency && fxRate.toCurrency === fromCurrency);
+  return inverse ? 1 / getPairRate(inverse, month) : undefined;
+};
+
+/**
+ * Find an event currency that cannot be converted into the base currency
+ * @returns Currency code without a rate, undefined when every event can be converted
+ */
+export const findMissingFxRate = (events: Event[], currency: CurrencySettings): string | undefined => {
+  const hasRate = (code: string) => currency.fxRates.some((fxRate) =>
+    (fxRate.fromCurrency === code && fxRate.toCurrency === currency.baseCurrency) ||
+    (fxRate.fromCurrency === currency.baseCurrency && fxRate.toCurrency === code));
+
+  return events
+    .map((event) => event.currency)
+    .find((code) => code !== undefined && code !== currency.baseCurrency && !hasRate(code));
+};
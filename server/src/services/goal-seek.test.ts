@@ -0,0 +1,133 @@
+/**
+ * Tests for the goal-seek solver
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { getEventField, meetsConstraint, runGoalSeek, setEventField } from './goal-seek';
+import { FinancialCalculator } from './calculator';
+import { ExpenseEvent, IncomeEvent, MortgageEvent } from '../models/events';
+
+describe('Goal seek', () => {
+  const salary: IncomeEvent = {
+    id: 1,
+    planId: 1,
+    type: 'income',
+    data: { amount: 1000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+  };
+  const purchase: ExpenseEvent = {
+    id: 2,
+    planId: 1,
+    type: 'expense',
+    data: { amount: 1, isRecurrent: false, months: [], startDate: '2025-12-01' },
+  };
+  const openingBalances = { liquidity: 5000, assets: 0, debts: [] };
+
+  describe('getEventField and setEventField', () => {
+    it('should read and replace nested numeric fields without changing the original', () => {
+      const escalating: IncomeEvent = { ...salary, data: { ...salary.data, escalation: { annualRate: 0.03, applyOn: 'january' } } };
+      const updated = setEventField(escalating, 'escalation.annualRate', 0.05);
+
+      expect(getEventField(updated, 'escalation.annualRate')).to.equal(0.05);
+      expect(getEventField(escalating, 'escalation.annualRate')).to.equal(0.03);
+      expect(getEventField(escalating, 'startDate')).to.equal(undefined);
+      expect(getEventField(escalating, 'missing.field')).to.equal(undefined);
+    });
+  });
+
+  describe('meetsConstraint', () => {
+    const chartData = new FinancialCalculator().calculateLiquidityAndAssets([salary], '2025-01-01', 5, { openingBalances });
+
+    it('should check the target month of reach_by constraints', () => {
+      // 5000 opening cash plus 12 months of salary by December 2025
+      expect(meetsConstraint(chartData, { type: 'reach_by', measure: 'liquidity', amount: 17000, targetDate: '2025-12-15' })).to.equal(true);
+      expect(meetsConstraint(chartData, { type: 'reach_by', measure: 'liquidity', amount: 17001, targetDate: '2025-12-15' })).to.equal(false);
+    });
+
+    it('should check every month of never_below constraints', () => {
+      expect(meetsConstraint(chartData, { type: 'never_below', measure: 'net_worth', amount: 6000 })).to.equal(true);
+      expect(meetsConstraint(chartData, { type: 'never_below', measure: 'net_worth', amount: 6001 })).to.equal(false);
+    });
+  });
+
+  describe('runGoalSeek', () => {
+    it('should find the highest purchase that keeps cash above a floor', () => {
+      const result = runGoalSeek([salary, purchase], '2025-01-01', 5, {
+        eventId: 2,
+        field: 'amount',
+        min: 0,
+        max: 50000,
+        objective: 'maximize',
+        constraint: { type: 'never_below', measure: 'liquidity', amount: 5000 },
+      }, { openingBalances });
+
+      // 17000 held in December, when the purchase is paid
+      expect(result.feasible).to.equal(true);
+      expect(result.value).to.be.closeTo(12000, 0.01);
+    });
+
+    it('should find the lowest monthly saving that reaches a target', () => {
+      const result = runGoalSeek([salary], '2025-01-01', 10, {
+        eventId: 1,
+        field: 'amount',
+        min: 0,
+        max: 10000,
+        objective: 'minimize',
+        constraint: { type: 'reach_by', measure: 'liquidity', amount: 100000, targetDate: '2029-12-01' },
+      });
+
+      // 60 payments by December 2029
+      expect(result.value).to.be.closeTo(100000 / 60, 0.01);
+    });
+
+    it('should return the bound when the whole range meets the constraint', () => {
+      const result = runGoalSeek([salary, purchase], '2025-01-01', 5, {
+        eventId: 2,
+        field: 'amount',
+        min: 0,
+        max: 1000,
+        objective: 'maximize',
+        constraint: { type: 'never_below', measure: 'liquidity', amount: 5000 },
+      }, { openingBalances });
+
+      expect(result).to.deep.equal({ value: 1000, feasible: true, iterations: 1 });
+    });
+
+    describe('mortgage purchase price', () => {
+      const pay: IncomeEvent = { ...salary, id: 4, data: { ...salary.data, amount: 3000 } };
+      const mortgage: MortgageEvent = {
+        id: 3,
+        planId: 1,
+        type: 'mortgage',
+        data: { startDate: '2025-01-01', purchasePrice: 300000, loanedAmount: 200000, interestRate: 0.05, repaymentPercentage: 1, years: 25 },
+      };
+      const settings = {
+        eventId: 3,
+        field: 'purchasePrice',
+        max: 400000,
+        objective: 'maximize' as const,
+        constraint: { type: 'never_below' as const, measure: 'liquidity' as const, amount: 5000 },
+      };
+
+      it('should find the highest purchase price affordable without dropping below £5k cash', () => {
+        const result = runGoalSeek([pay, mortgage], '2025-01-01', 5, { ...settings, min: 200000 }, {
+          openingBalances: { liquidity: 40000, assets: 0, debts: [] },
+        });
+
+        // The deposit above the 200000 loan is paid from the opening cash and the first month's pay
+        expect(result.feasible).to.equal(true);
+        expect(result.value).to.be.closeTo(40000 + 3000 - 5000 + 200000, 0.01);
+      });
+
+      it('should report when no value within the bounds meets the constraint', () => {
+        const result = runGoalSeek([pay, mortgage], '2025-01-01', 5, { ...settings, min: 250000 }, {
+          openingBalances: { liquidity: 40000, assets: 0, debts: [] },
+        });
+
+        expect(result.feasible).to.equal(false);
+        expect(result.value).to.equal(null);
+        expect(result.iterations).to.equal(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Event } from '../models/events';
+import { CalculationOptions, ChartDataPoint, FinancialCalculator } from './calculator';
+
+// Projected value a constraint is checked on
+export type GoalSeekMeasure = 'liquidity' | 'net_worth';
+
+/**
+ * Condition the projection must meet for a value to be accepted
+ * never_below holds when the measure stays at or above amount in every month,
+ * reach_by when it is at least amount in the month of targetDate (the last projected month when beyond the projection)
+ */
+export type GoalSeekConstraint =
+  | { type: 'never_below'; measure: GoalSeekMeasure; amount: number }
+  | { type: 'reach_by'; measure: GoalSeekMeasure; amount: number; targetDate: string };
+
+export interface GoalSeekSettings {
+  eventId: number;
+  field: string; // Numeric field of the event's data, dotted for nested fields (e.g., 'purchasePrice', 'escalation.annualRate')
+  min: number;
+  max: number;
+  objective: 'maximize' | 'minimize'; // Whether the highest or lowest value meeting the constraint is wanted
+  constraint: GoalSeekConstraint;
+  tolerance?: number; // Width of the final search interval, defaults to 0.01
+}
+
+export interface GoalSeekResult {
+  value: number | null; // Best value meeting the constraint, null when no value within the bounds does
+  feasible: boolean;
+  iterations: number; // Calculator runs used
+}
+
+export const DEFAULT_GOAL_SEEK_TOLERANCE = 0.01;
+
+// Upper bound on calculator runs, reached only with a tolerance far below the width of the bounds
+const MAX_GOAL_SEEK_ITERATIONS = 100;
+
+/**
+ * Read a numeric field of an event's data
+ * @returns Current value, undefined when the field does not exist or is not a number
+ */
+export const getEventField = (event: Event, field: string): number | undefined => {
+  const value = field.split('.').reduce<any>((data, key) => (data && typeof data === 'object' ? data[key] : undefined), event.data);
+  return typeof value === 'number' ? value : undefined;
+};
+
+/**
+ * Copy an event with one field of its data replaced
+ */
+export const setEventField = (event: Event, field: string, value: number): Event => {
+  const data = JSON.parse(JSON.stringify(event.data));
+  const keys = field.split('.');
+  const parent = keys.slice(0, -1).reduce((object, key) => object[key], data);
+  parent[keys[keys.length - 1]] = value;
+  return { ...event, data } as Event;
+};
+
+/**
+ * Check a projection against a constraint
+ */
+export const meetsConstraint = (chartData: ChartDataPoint[], constraint: GoalSeekConstraint): boolean => {
+  const measure = (point: ChartDataPoint) => constraint.measure === 'net_worth' ? point.netWorth : point.liquidity;
+
+  if (constraint.type === 'never_below') {
+    return chartData.every((point) => measure(point) >= constraint.amount);
+  }
+
+  const targetMonth = constraint.targetDate.slice(0, 7);
+  const point = chartData.find((dataPoint) => dataPoint.month.slice(0, 7) >= targetMonth) ?? chartData[chartData.length - 1];
+  return point !== undefined && measure(point) >= constraint.amount;
+};
+
+/**
+ * Find the highest or lowest value of one event field for which the projection meets a constraint
+ * Searches by bisection, so the constraint is assumed to hold on one side of a single threshold within the bounds
+ * (e.g., a higher purchase price never leaves more cash)
+ * @param events Array of all events for a plan
+ * @param startDate Start date for calculations (ISO string or Date)
+ * @param rangeYears Number of years to project (5-20)
+ * @param settings Event field, bounds, objective and constraint
+ * @param options Calculation settings shared by every run, such as opening balances
+ */
+export const runGoalSeek = (
+  events: Event[],
+  startDate: string | Date,
+  rangeYears: number,
+  settings: GoalSeekSettings,
+  options: CalculationOptions = {}
+): GoalSeekResult => {
+  const calculator = new FinancialCalculator();
+  const tolerance = settings.tolerance ?? DEFAULT_GOAL_SEEK_TOLERANCE;
+  let iterations = 0;
+
+  const isFeasible = (value: number): boolean => {
+    iterations++;
+    const candidateEvents = events.map((event) => event.id === settings.eventId ? setEventField(event, settings.field, value) : event);
+    return meetsConstraint(calculator.calculateLiquidityAndAssets(candidateEvents, startDate, rangeYears, options), settings.constraint);
+  };
+
+  // The bound in the direction of the objective wins outright, the other bound tells whether anything is feasible
+  const [best, worst] = settings.objective === 'maximize' ? [settings.max, settings.min] : [settings.min, settings.max];
+  if (isFeasible(best)) {
+    return { value: best, feasible: true, iterations };
+  }
+  if (!isFeasible(worst)) {
+    return { value: null, feasible: false, iterations };
+  }
+
+  // Narrow the interval between a feasible and an infeasible value
+  let feasibleValue = worst;
+  let infeasibleValue = best;
+  while (Math.abs(infeasibleValue - feasibleValue) > tolerance && iterations < MAX_GOAL_SEEK_ITERATIONS) {
+    const midpoint = (feasibleValue + infeasibleValue) / 2;
+    if (isFeasible(midpoint)) {
+      feasibleValue = midpoint;
+    } else {
+      infeasibleValue = midpoint;
+    }
+  }
+
+  return { value: feasibleValue, feasible: true, iterations };
+};
@@ -0,0 +1,122 @@
+/**
+ * Tests for goal evaluation
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { evaluateGoals } from './goals';
+import { FinancialCalculator } from './calculator';
+import { DebtFreeGoal, EmergencyFundGoal, SavingsTargetGoal } from '../models/goal';
+import { ExpenseEvent, IncomeEvent, LoanEvent } from '../models/events';
+
+describe('Goal evaluation', () => {
+  const income: IncomeEvent = {
+    id: 1,
+    planId: 1,
+    type: 'income',
+    data: { amount: 3000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+  };
+  const expense: ExpenseEvent = {
+    id: 2,
+    planId: 1,
+    type: 'expense',
+    data: { amount: 2000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+  };
+  const loan: LoanEvent = {
+    id: 3,
+    planId: 1,
+    type: 'loan',
+    data: { startDate: '2025-01-01', principal: 6000, interestRate: 0, termMonths: 24 },
+  };
+
+  const chartData = new FinancialCalculator().calculateLiquidityAndAssets([income, expense, loan], '2025-01-01', 5, { includeCashflow: true });
+
+  describe('savings_target', () => {
+    const goal = (amount: number, targetDate: string): SavingsTargetGoal => ({
+      id: 10,
+      planId: 1,
+      name: 'House deposit',
+      type: 'savings_target',
+      data: { amount, targetDate },
+    });
+
+    it('should report the month reached and the surplus at the target date', () => {
+      const [evaluation] = evaluateGoals([goal(20000, '2026-12-01')], chartData);
+
+      // 6000 borrowed plus 750 a month left after the 250 loan payment
+      expect(evaluation.met).to.equal(true);
+      expect(evaluation.checkedMonth).to.equal(chartData[23].month);
+      expect(evaluation.reachedMonth).to.equal(chartData[18].month);
+      expect(evaluation.surplus).to.equal(chartData[23].liquidity - 20000);
+      expect(evaluation.shortfall).to.equal(0);
+    });
+
+    it('should report the shortfall when the target is missed', () => {
+      const [evaluation] = evaluateGoals([goal(30000, '2026-06-01')], chartData);
+
+      expect(evaluation.met).to.equal(false);
+      expect(evaluation.shortfall).to.equal(30000 - chartData[17].liquidity);
+      expect(evaluation.surplus).to.equal(0);
+    });
+
+    it('should check targets beyond the projection in its last month', () => {
+      const [evaluation] = evaluateGoals([goal(1000000, '2040-01-01')], chartData);
+
+      expect(evaluation.met).to.equal(false);
+      expect(evaluation.checkedMonth).to.equal(chartData[59].month);
+      expect(evaluation.reachedMonth).to.equal(null);
+    });
+  });
+
+  describe('emergency_fund', () => {
+    it('should compare liquidity with months of outgoings', () => {
+      const goal: EmergencyFundGoal = {
+        id: 11,
+        planId: 1,
+        name: 'Emergency fund',
+        type: 'emergency_fund',
+        data: { months: 6 },
+      };
+      const [evaluation] = evaluateGoals([goal], chartData);
+
+      // Outgoings of 2000 expenses and 250 loan repayments, then 2000 once the loan is repaid
+      expect(evaluation.met).to.equal(true);
+      expect(evaluation.checkedMonth).to.equal(chartData[59].month);
+      expect(evaluation.reachedMonth).to.equal(chartData[9].month);
+      expect(chartData[9].liquidity).to.be.at.least(6 * (2000 + 9 * 2250) / 10);
+      expect(evaluation.surplus).to.equal(Math.round((chartData[59].liquidity - 12000) * 100) / 100);
+    });
+  });
+
+  describe('debt_free', () => {
+    it('should report the month the loan is cleared', () => {
+      const goal: DebtFreeGoal = {
+        id: 12,
+        planId: 1,
+        name: 'Loan-free',
+        type: 'debt_free',
+        data: { eventId: 3, targetDate: '2026-06-01' },
+      };
+      const [evaluation] = evaluateGoals([goal], chartData);
+
+      expect(evaluation.met).to.equal(false);
+      expect(evaluation.shortfall).to.equal(chartData[17].totalLiabilities);
+      expect(evaluation.reachedMonth).to.equal(chartData[24].month);
+    });
+
+    it('should take the target month from date of birth and age', () => {
+      const goal: DebtFreeGoal = {
+        id: 13,
+        planId: 1,
+        name: 'Debt-free by 40',
+        type: 'debt_free',
+        data: { dateOfBirth: '1988-03-15', age: 40 },
+      };
+      const [evaluation] = evaluateGoals([goal], chartData);
+
+      expect(evaluation.met).to.equal(true);
+      expect(evaluation.checkedMonth).to.equal(chartData[38].month);
+      expect(evaluation.surplus).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Goal, SavingsTargetGoal, EmergencyFundGoal, DebtFreeGoal } from '../models/goal';
+import { ChartDataPoint, calculateOutgoings } from './calculator';
+import { addYears, parseISO, startOfMonth } from 'date-fns';
+
+/**
+ * Result of checking a goal against a projection
+ */
+export interface GoalEvaluation {
+  goalId: number;
+  name: string;
+  type: Goal['type'];
+  met: boolean; // Whether the goal holds in the month it is checked
+  checkedMonth: string; // Target month, limited to the projected months
+  reachedMonth: string | null; // First month the goal holds, null when it is never reached
+  shortfall: number; // Amount missing in the checked month
+  surplus: number; // Amount beyond the target in the checked month
+}
+
+// Target amount and projected amount of a goal in each month, a goal holds while the projected amount reaches the target
+interface GoalProgress {
+  targetMonth: string | null; // ISO date string of the month the goal is due, null for the end of the projection
+  projected: number[];
+  target: number[];
+}
+
+/**
+ * Evaluate goals against a projection
+ * @param goals Goals of a plan
+ * @param chartData Projection calculated with includeCashflow, needed for emergency funds
+ */
+export const evaluateGoals = (goals: Goal[], chartData: ChartDataPoint[]): GoalEvaluation[] => {
+  return goals.map((goal) => evaluateGoal(goal, chartData));
+};
+
+const evaluateGoal = (goal: Goal, chartData: ChartDataPoint[]): GoalEvaluation => {
+  let progress: GoalProgress;
+  switch (goal.type) {
+    case 'savings_target':
+      progress = getSavingsTargetProgress(goal, chartData);
+      break;
+    case 'emergency_fund':
+      progress = getEmergencyFundProgress(goal, chartData);
+      break;
+    case 'debt_free':
+      progress = getDebtFreeProgress(goal, chartData);
+      break;
+  }
+
+  const checkedIndex = getCheckedIndex(progress.targetMonth, chartData);
+  const reachedIndex = getReachedIndex(progress, goal.type === 'debt_free');
+  const gap = checkedIndex >= 0 ? progress.projected[checkedIndex] - progress.target[checkedIndex] : 0;
+
+  return {
+    goalId: goal.id!,
+    name: goal.name,
+    type: goal.type,
+    met: checkedIndex >= 0 && gap >= 0,
+    checkedMonth: chartData[checkedIndex]?.month ?? '',
+    reachedMonth: reachedIndex >= 0 ? chartData[reachedIndex].month : null,
+    shortfall: Math.round(Math.max(0, -gap) * 100) / 100,
+    surplus: Math.round(Math.max(0, gap) * 100) / 100,
+  };
+};
+
+/**
+ * Index of the month a goal is checked in: its target month, or the nearest projected month
+ */
+const getCheckedIndex = (targetMonth: string | null, chartData: ChartDataPoint[]): number => {
+  if (targetMonth === null) {
+    return chartData.length - 1;
+  }
+
+  const index = chartData.findIndex((point) => point.month >= targetMonth);
+  return index >= 0 ? index : chartData.length - 1;
+};
+
+/**
+ * Index of the first month a goal holds
+ * @param mustHold Whether the goal only counts as reached once it holds for the rest of the projection, as for clearing debts
+ */
+const getReachedIndex = (progress: GoalProgress, mustHold: boolean): number => {
+  const holds = (index: number) => progress.projected[index] >= progress.target[index];
+
+  if (!mustHold) {
+    return progress.projected.findIndex((_, index) => holds(index));
+  }
+
+  let lastMissed = -1;
+  progress.projected.forEach((_, index) => {
+    if (!holds(index)) {
+      lastMissed = index;
+    }
+  });
+  return lastMissed + 1 < progress.projected.length ? lastMissed + 1 : -1;
+};
+
+const toTargetMonth = (date: Date): string => {
+  return startOfMonth(date).toISOString().split('T')[0];
+};
+
+const getSavingsTargetProgress = (goal: SavingsTargetGoal, chartData: ChartDataPoint[]): GoalProgress => {
+  const { amount, targetDate, measure } = goal.data;
+  return {
+    targetMonth: toTargetMonth(parseISO(targetDate)),
+    projected: chartData.map((point) => measure === 'net_worth' ? point.netWorth : point.liquidity),
+    target: chartData.map(() => amount),
+  };
+};
+
+/**
+ * Cash needed is the number of months times average monthly outgoings over the last 12 months
+ */
+const getEmergencyFundProgress = (goal: EmergencyFundGoal, chartData: ChartDataPoint[]): GoalProgress => {
+  const { months, targetDate } = goal.data;
+  const outgoings = chartData.map((point) => point.cashflow ? calculateOutgoings(point.cashflow) : 0);
+
+  return {
+    targetMonth: targetDate ? toTargetMonth(parseISO(targetDate)) : null,
+    projected: chartData.map((point) => point.liquidity),
+    target: outgoings.map((_, index) => {
+      const window = outgoings.slice(Math.max(0, index - 11), index + 1);
+      return months * window.reduce((total, amount) => total + amount, 0) / window.length;
+    }),
+  };
+};
+
+/**
+ * Debt free once the loan, or every loan, has nothing outstanding
+ * Projected amount is the negative of what is owed so that the goal holds at zero
+ */
+const getDebtFreeProgress = (goal: DebtFreeGoal, chartData: ChartDataPoint[]): GoalProgress => {
+  const { eventId, targetDate, dateOfBirth, age } = goal.data;
+  let targetMonth: string | null = null;
+  if (targetDate) {
+    targetMonth = toTargetMonth(parseISO(targetDate));
+  } else if (dateOfBirth && age !== undefined) {
+    targetMonth = toTargetMonth(addYears(parseISO(dateOfBirth), age));
+  }
+
+  return {
+    targetMonth,
+    projected: chartData.map((point) => eventId !== undefined
+      ? -(point.liabilities.find((liability) => liability.eventId === eventId)?.balance ?? 0)
+      : -point.totalLiabilities),
+    target: chartData.map(() => 0),
+  };
+};
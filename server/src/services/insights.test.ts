@@ -0,0 +1,67 @@
+/**
+ * Tests for projection insights
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { analyseProjection } from './insights';
+import { FinancialCalculator } from './calculator';
+import { ExpenseEvent, IncomeEvent, LoanEvent } from '../models/events';
+
+describe('Projection insights', () => {
+  const income: IncomeEvent = {
+    id: 1,
+    planId: 1,
+    type: 'income',
+    data: { amount: 2000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+  };
+  const expense: ExpenseEvent = {
+    id: 2,
+    planId: 1,
+    type: 'expense',
+    data: { amount: 1900, isRecurrent: true, months: [], startDate: '2025-01-01' },
+  };
+  const car: ExpenseEvent = {
+    id: 3,
+    planId: 1,
+    type: 'expense',
+    data: { amount: 3000, isRecurrent: false, months: [], startDate: '2025-03-01' },
+  };
+  const loan: LoanEvent = {
+    id: 4,
+    planId: 1,
+    type: 'loan',
+    data: { startDate: '2025-06-01', principal: 1200, interestRate: 0, termMonths: 12 },
+  };
+
+  const events = [income, expense, car, loan];
+  const chartData = new FinancialCalculator().calculateLiquidityAndAssets(events, '2025-01-01', 5, {
+    openingBalances: { liquidity: 2000, assets: 0, debts: [] },
+    includeCashflow: true,
+  });
+  const insights = analyseProjection(chartData, events);
+
+  it('should list the months liquidity is negative', () => {
+    // 2100 after January, 2200 after February, -700 after the car, back above zero by June with the loan
+    expect(insights.negativeLiquidityMonths).to.deep.equal(['2025-03-01', '2025-04-01', '2025-05-01']);
+  });
+
+  it('should report the lowest cash point', () => {
+    expect(insights.lowestLiquidity).to.deep.equal({ month: '2025-03-01', amount: -700 });
+  });
+
+  it('should report peak total debt', () => {
+    expect(insights.peakDebt).to.deep.equal({ month: '2025-06-01', amount: 1200 });
+  });
+
+  it('should report the runway from first-year outgoings', () => {
+    // 1900 a month, 3000 once and 100 a month of loan repayments from July
+    const averageOutgoings = (1900 * 12 + 3000 + 100 * 6) / 12;
+    expect(insights.averageMonthlyOutgoings).to.equal(Math.round(averageOutgoings * 100) / 100);
+    expect(insights.runwayMonths).to.equal(Math.round(2100 / averageOutgoings * 10) / 10);
+  });
+
+  it('should report when each loan is paid off', () => {
+    expect(insights.loanPayoffs).to.deep.equal([{ eventId: 4, type: 'loan', payoffMonth: '2026-06-01' }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { Event, EventType } from '../models/events';
+import { ChartDataPoint, calculateOutgoings } from './calculator';
+
+/**
+ * Value of the projection in a given month
+ */
+export interface MonthValue {
+  month: string; // ISO date string (YYYY-MM-DD)
+  amount: number;
+}
+
+export interface LoanPayoff {
+  eventId: number;
+  type: EventType;
+  payoffMonth: string | null; // First month nothing is owed, null when still owed at the end of the projection
+}
+
+export interface ProjectionInsights {
+  negativeLiquidityMonths: string[]; // Months ending with liquidity below zero
+  lowestLiquidity: MonthValue;
+  peakDebt: MonthValue; // Highest total of outstanding loan balances
+  runwayMonths: number | null; // Months of outgoings covered by cash at the end of the first month, null when there are no outgoings
+  averageMonthlyOutgoings: number; // Over the first 12 months, used for the runway
+  loanPayoffs: LoanPayoff[];
+}
+
+/**
+ * Analyse a projection for the warnings shown on the plan page
+ * @param chartData Projection calculated with includeCashflow, needed for the runway
+ * @param events Events of the plan, in the order they were projected
+ */
+export const analyseProjection = (chartData: ChartDataPoint[], events: Event[]): ProjectionInsights => {
+  const negativeLiquidityMonths = chartData
+    .filter((point) => point.liquidity < 0)
+    .map((point) => point.month);
+
+  const lowest = chartData.reduce<ChartDataPoint | undefined>(
+    (lowestPoint, point) => (!lowestPoint || point.liquidity < lowestPoint.liquidity ? point : lowestPoint),
+    undefined
+  );
+  const peak = chartData.reduce<ChartDataPoint | undefined>(
+    (peakPoint, point) => (!peakPoint || point.totalLiabilities > peakPoint.totalLiabilities ? point : peakPoint),
+    undefined
+  );
+
+  const firstYear = chartData.slice(0, 12);
+  const averageMonthlyOutgoings = firstYear.length > 0
+    ? firstYear.reduce((total, point) => total + (point.cashflow ? calculateOutgoings(point.cashflow) : 0), 0) / firstYear.length
+    : 0;
+  const firstMonthLiquidity = chartData[0]?.liquidity ?? 0;
+
+  return {
+    negativeLiquidityMonths,
+    lowestLiquidity: { month: lowest?.month ?? '', amount: lowest?.liquidity ?? 0 },
+    peakDebt: { month: peak?.month ?? '', amount: peak?.totalLiabilities ?? 0 },
+    runwayMonths: averageMonthlyOutgoings > 0 ? Math.round(Math.max(0, firstMonthLiquidity) / averageMonthlyOutgoings * 10) / 10 : null,
+    averageMonthlyOutgoings: Math.round(averageMonthlyOutgoings * 100) / 100,
+    loanPayoffs: getLoanPayoffs(chartData, events),
+  };
+};
+
+/**
+ * Month each loan in the projection is paid off: the month after the last one it is owed in
+ */
+const getLoanPayoffs = (chartData: ChartDataPoint[], events: Event[]): LoanPayoff[] => {
+  const lastOwed = new Map<number, number>(); // eventId -> index of the last month a balance is owed
+  chartData.forEach((point, index) => {
+    for (const liability of point.liabilities) {
+      lastOwed.set(liability.eventId, index);
+    }
+  });
+
+  return events
+    .filter((event) => lastOwed.has(event.id!))
+    .map((event) => ({
+      eventId: event.id!,
+      type: event.type,
+      payoffMonth: chartData[lastOwed.get(event.id!)! + 1]?.month ?? null,
+    }));
+};
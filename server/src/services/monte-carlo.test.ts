@@ -0,0 +1,147 @@
+/**
+ * Tests for Monte Carlo simulation
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { createSeededRandom, getMaxMonteCarloPaths, percentile, runMonteCarlo, MAX_MONTE_CARLO_PATHS } from './monte-carlo';
+import { FinancialCalculator } from './calculator';
+import { ExpenseEvent, IncomeEvent, InvestmentEvent } from '../models/events';
+
+describe('Monte Carlo simulation', () => {
+  const events = [
+    {
+      id: 1,
+      planId: 1,
+      type: 'income',
+      data: { amount: 3000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+    } as IncomeEvent,
+    {
+      id: 2,
+      planId: 1,
+      type: 'expense',
+      data: { amount: 2500, isRecurrent: true, months: [], startDate: '2025-01-01', escalation: { annualRate: 0.03, applyOn: 'anniversary' } },
+    } as ExpenseEvent,
+    {
+      id: 3,
+      planId: 1,
+      type: 'investment',
+      data: { startDate: '2025-01-01', openingBalance: 0, contributions: [{ startDate: '2025-01-01', amount: 400 }], annualGrowthRate: 0.05 },
+    } as InvestmentEvent,
+  ];
+
+  describe('createSeededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const first = createSeededRandom(42);
+      const second = createSeededRandom(42);
+      for (let i = 0; i < 5; i++) {
+        const value = first();
+        expect(value).to.equal(second());
+        expect(value).to.be.at.least(0);
+        expect(value).to.be.below(1);
+      }
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate between ranks', () => {
+      expect(percentile([0, 10, 20, 30, 40], 0.5)).to.equal(20);
+      expect(percentile([0, 10, 20, 30, 40], 0.1)).to.be.closeTo(4, 1e-9);
+      expect(percentile([7], 0.9)).to.equal(7);
+    });
+  });
+
+  describe('getMaxMonteCarloPaths', () => {
+    it('should allow fewer paths for more events and longer ranges', () => {
+      expect(getMaxMonteCarloPaths(3, 5)).to.equal(MAX_MONTE_CARLO_PATHS);
+      expect(getMaxMonteCarloPaths(14, 20)).to.be.below(getMaxMonteCarloPaths(14, 10));
+      expect(getMaxMonteCarloPaths(14, 20)).to.be.below(getMaxMonteCarloPaths(7, 20));
+      expect(getMaxMonteCarloPaths(14, 20) * 14 * 240).to.be.at.most(400000);
+      expect(getMaxMonteCarloPaths(10000, 20)).to.equal(1);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    it('should return the same bands for the same seed', () => {
+      const first = runMonteCarlo(events, '2025-01-01', 5, { paths: 20, seed: 7 });
+      const second = runMonteCarlo(events, '2025-01-01', 5, { paths: 20, seed: 7 });
+
+      expect(first.seed).to.equal(7);
+      expect(first.bands).to.have.lengthOf(60);
+      expect(first).to.deep.equal(second);
+    });
+
+    it('should match the deterministic projection when rates do not vary', () => {
+      const noVariation = { mean: 0, standardDeviation: 0 };
+      const result = runMonteCarlo(events, '2025-01-01', 5, {
+        paths: 3,
+        seed: 1,
+        investmentReturn: noVariation,
+        inflation: noVariation,
+        interestRate: noVariation,
+      });
+      const projection = new FinancialCalculator().calculateLiquidityAndAssets(events, '2025-01-01', 5);
+
+      result.bands.forEach((band, index) => {
+        expect(band.liquidity).to.deep.equal({ p10: projection[index].liquidity, p50: projection[index].liquidity, p90: projection[index].liquidity });
+        expect(band.netWorth.p50).to.equal(projection[index].netWorth);
+      });
+    });
+
+    it('should deflate each path by its own inflation before taking percentiles', () => {
+      const noVariation = { mean: 0, standardDeviation: 0 };
+      const result = runMonteCarlo(events, '2025-01-01', 5, {
+        paths: 3,
+        seed: 1,
+        investmentReturn: noVariation,
+        inflation: { mean: 0.02, standardDeviation: 0 },
+        interestRate: noVariation,
+        inflationRate: 0.03,
+      });
+
+      // The plan's 3% plus the 2% drawn for every year
+      const band = result.bands[48];
+      expect(band.real!.liquidity.p50).to.be.closeTo(band.liquidity.p50 / Math.pow(1.05, 4), 0.01);
+      expect(band.real!.netWorth.p50).to.be.closeTo(band.netWorth.p50 / Math.pow(1.05, 4), 0.01);
+    });
+
+    it('should only add real bands with an inflation rate', () => {
+      const result = runMonteCarlo(events, '2025-01-01', 5, { paths: 3, seed: 1 });
+
+      expect(result.bands[12]).to.not.have.property('real');
+    });
+
+    it('should order the percentile bands', () => {
+      const result = runMonteCarlo(events, '2025-01-01', 10, { paths: 50, seed: 3 });
+      const lastBand = result.bands[result.bands.length - 1];
+
+      expect(lastBand.netWorth.p10).to.be.below(lastBand.netWorth.p50);
+      expect(lastBand.netWorth.p50).to.be.below(lastBand.netWorth.p90);
+    });
+
+    it('should keep bands finite when sampled returns fall below -100%', () => {
+      const result = runMonteCarlo(events, '2025-01-01', 20, {
+        paths: 50,
+        seed: 3,
+        investmentReturn: { mean: 0, standardDeviation: 0.6 },
+      });
+
+      result.bands.forEach((band) => {
+        expect(Number.isFinite(band.netWorth.p50)).to.equal(true);
+        expect(Number.isFinite(band.netWorth.p90)).to.equal(true);
+      });
+    });
+
+    it('should report the share of paths where liquidity goes negative', () => {
+      const result = runMonteCarlo(events, '2025-01-01', 10, {
+        paths: 50,
+        seed: 3,
+        inflation: { mean: 0, standardDeviation: 0.05 },
+      });
+
+      // Expenses are indexed, so some paths with high inflation run out of cash
+      expect(result.probabilityOfNegativeLiquidity).to.be.above(0);
+      expect(result.probabilityOfNegativeLiquidity).to.be.below(1);
+    });
+  });
+});
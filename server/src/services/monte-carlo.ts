@@ -0,0 +1,201 @@
+import { Event } from '../models/events';
+import { CalculationOptions, FinancialCalculator, MarketConditions } from './calculator';
+import { getPathPriceLevel } from './real-terms';
+
+/**
+ * Normal distribution of an annual rate, as a deviation from the rates entered on events
+ */
+export interface RateDistribution {
+  mean: number;
+  standardDeviation: number;
+}
+
+export interface MonteCarloSettings {
+  paths: number; // Number of randomized projections
+  seed?: number; // Fixes the random draws so results can be reproduced
+  investmentReturn?: RateDistribution;
+  inflation?: RateDistribution;
+  interestRate?: RateDistribution;
+  inflationRate?: number; // Plan inflation assumption, adds bands in today's money when set
+}
+
+/**
+ * 10th, 50th and 90th percentile of a value across all paths
+ */
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloBand {
+  month: string; // ISO date string (YYYY-MM-DD)
+  liquidity: PercentileBand;
+  netWorth: PercentileBand;
+  real?: Pick<MonteCarloBand, 'liquidity' | 'netWorth'>; // In today's money deflated by each path's own inflation, only with inflationRate
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  bands: MonteCarloBand[];
+  probabilityOfNegativeLiquidity: number; // Share of paths where liquidity goes below zero in any month
+}
+
+export const DEFAULT_MONTE_CARLO_PATHS = 200;
+export const MAX_MONTE_CARLO_PATHS = 1000;
+
+// Event-months projected across all paths of one simulation, about two seconds of calculator runs
+const MONTE_CARLO_EVENT_MONTHS = 400000;
+
+// Typical yearly spread of each rate around the entered assumptions
+export const DEFAULT_MONTE_CARLO_DISTRIBUTIONS: Required<Pick<MonteCarloSettings, 'investmentReturn' | 'inflation' | 'interestRate'>> = {
+  investmentReturn: { mean: 0, standardDeviation: 0.15 },
+  inflation: { mean: 0, standardDeviation: 0.01 },
+  interestRate: { mean: 0, standardDeviation: 0.01 },
+};
+
+/**
+ * Most paths a simulation of a plan may run, fewer for plans with many events or long projections
+ * @param eventCount Number of events in the plan
+ * @param rangeYears Number of years to project
+ */
+export const getMaxMonteCarloPaths = (eventCount: number, rangeYears: number): number => {
+  const eventMonthsPerPath = Math.max(1, eventCount) * rangeYears * 12;
+  return Math.max(1, Math.min(MAX_MONTE_CARLO_PATHS, Math.floor(MONTE_CARLO_EVENT_MONTHS / eventMonthsPerPath)));
+};
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @returns Function returning numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draw from a normal distribution using the Box-Muller transform
+ */
+export const sampleNormal = (random: () => number, distribution: RateDistribution): number => {
+  const u1 = 1 - random(); // Avoid log(0)
+  const u2 = random();
+  const standardNormal = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  return distribution.mean + distribution.standardDeviation * standardNormal;
+};
+
+/**
+ * Percentile of a set of values, interpolating linearly between ranks
+ * @param sortedValues Values sorted in ascending order
+ * @param fraction Percentile as decimal (e.g., 0.9)
+ */
+export const percentile = (sortedValues: number[], fraction: number): number => {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank = (sortedValues.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+};
+
+const toPercentileBand = (values: number[]): PercentileBand => {
+  const sortedValues = [...values].sort((a, b) => a - b);
+  return {
+    p10: Math.round(percentile(sortedValues, 0.1) * 100) / 100,
+    p50: Math.round(percentile(sortedValues, 0.5) * 100) / 100,
+    p90: Math.round(percentile(sortedValues, 0.9) * 100) / 100,
+  };
+};
+
+/**
+ * Run randomized projections of a plan and summarise them as percentile bands
+ * Each path draws one set of market conditions per projection year and runs it through the calculator
+ * @param events Array of all events for a plan
+ * @param startDate Start date for calculations (ISO string or Date)
+ * @param rangeYears Number of years to project (5-20)
+ * @param settings Number of paths, seed and rate distributions
+ * @param options Calculation settings shared by every path, such as opening balances
+ */
+export const runMonteCarlo = (
+  events: Event[],
+  startDate: string | Date,
+  rangeYears: number,
+  settings: MonteCarloSettings,
+  options: CalculationOptions = {}
+): MonteCarloResult => {
+  const calculator = new FinancialCalculator();
+  const seed = settings.seed ?? Math.floor(Math.random() * 4294967296);
+  const random = createSeededRandom(seed);
+  const investmentReturn = settings.investmentReturn ?? DEFAULT_MONTE_CARLO_DISTRIBUTIONS.investmentReturn;
+  const inflation = settings.inflation ?? DEFAULT_MONTE_CARLO_DISTRIBUTIONS.inflation;
+  const interestRate = settings.interestRate ?? DEFAULT_MONTE_CARLO_DISTRIBUTIONS.interestRate;
+
+  const months: string[] = [];
+  const liquidityByMonth: number[][] = [];
+  const netWorthByMonth: number[][] = [];
+  const realLiquidityByMonth: number[][] = [];
+  const realNetWorthByMonth: number[][] = [];
+  let pathsWithNegativeLiquidity = 0;
+
+  for (let path = 0; path < settings.paths; path++) {
+    const marketPath: MarketConditions[] = [];
+    for (let year = 0; year < rangeYears; year++) {
+      marketPath.push({
+        investmentReturn: sampleNormal(random, investmentReturn),
+        inflation: sampleNormal(random, inflation),
+        interestRate: sampleNormal(random, interestRate),
+      });
+    }
+
+    const dataPoints = calculator.calculateLiquidityAndAssets(events, startDate, rangeYears, { ...options, marketPath });
+    
+    // Inflation of this path's years, deflating its values before percentiles are taken
+    const inflationRates = marketPath.map((market) => (settings.inflationRate ?? 0) + market.inflation);
+
+    dataPoints.forEach((point, index) => {
+      if (path === 0) {
+        months.push(point.month);
+        liquidityByMonth.push([]);
+        netWorthByMonth.push([]);
+        realLiquidityByMonth.push([]);
+        realNetWorthByMonth.push([]);
+      }
+      liquidityByMonth[index].push(point.liquidity);
+      netWorthByMonth[index].push(point.netWorth);
+      if (settings.inflationRate !== undefined) {
+        const priceLevel = getPathPriceLevel(inflationRates, index);
+        realLiquidityByMonth[index].push(point.liquidity / priceLevel);
+        realNetWorthByMonth[index].push(point.netWorth / priceLevel);
+      }
+    });
+
+    if (dataPoints.some((point) => point.liquidity < 0)) {
+      pathsWithNegativeLiquidity++;
+    }
+  }
+
+  return {
+    paths: settings.paths,
+    seed,
+    bands: months.map((month, index) => ({
+      month,
+      liquidity: toPercentileBand(liquidityByMonth[index]),
+      netWorth: toPercentileBand(netWorthByMonth[index]),
+      ...(settings.inflationRate !== undefined && {
+        real: {
+          liquidity: toPercentileBand(realLiquidityByMonth[index]),
+          netWorth: toPercentileBand(realNetWorthByMonth[index]),
+        },
+      }),
+    })),
+    probabilityOfNegativeLiquidity: settings.paths > 0 ? pathsWithNegativeLiquidity / settings.paths : 0,
+  };
+};
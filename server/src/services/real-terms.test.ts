@@ -0,0 +1,73 @@
+/**
+ * Tests for values in today's money
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { addRealValues, getPathPriceLevel, getPriceLevel } from './real-terms';
+import { FinancialCalculator } from './calculator';
+import { IncomeEvent, LoanEvent } from '../models/events';
+
+describe('Real terms', () => {
+  describe('getPriceLevel', () => {
+    it('should compound inflation from the start month', () => {
+      expect(getPriceLevel(0.02, '2025-03-15', '2025-03-01')).to.equal(1);
+      expect(getPriceLevel(0.02, '2025-03-15', '2026-03-01')).to.be.closeTo(1.02, 1e-12);
+      expect(getPriceLevel(0.02, '2025-03-15', '2045-03-01')).to.be.closeTo(Math.pow(1.02, 20), 1e-12);
+      expect(getPriceLevel(0.02, '2025-03-15', '2025-09-01')).to.be.closeTo(Math.sqrt(1.02), 1e-12);
+    });
+  });
+
+  describe('addRealValues', () => {
+    const income: IncomeEvent = {
+      id: 1,
+      planId: 1,
+      type: 'income',
+      data: { amount: 1000, isRecurrent: true, months: [], startDate: '2025-01-01' },
+    };
+    const loan: LoanEvent = {
+      id: 2,
+      planId: 1,
+      type: 'loan',
+      data: { startDate: '2025-01-01', principal: 12000, interestRate: 0, termMonths: 24 },
+    };
+    const chartData = new FinancialCalculator().calculateLiquidityAndAssets([income, loan], '2025-01-01', 5, { includeBreakdown: true });
+
+    it('should deflate values alongside the nominal values', () => {
+      const result = addRealValues(chartData, '2025-01-01', 0.03);
+
+      expect(result[12].liquidity).to.equal(chartData[12].liquidity);
+      expect(result[12].real!.liquidity).to.equal(Math.round(chartData[12].liquidity / 1.03 * 100) / 100);
+      expect(result[12].real!.totalLiabilities).to.equal(Math.round(chartData[12].totalLiabilities / 1.03 * 100) / 100);
+      expect(result[12].real!.liabilities).to.deep.equal([{ eventId: 2, balance: Math.round(chartData[12].liabilities[0].balance / 1.03 * 100) / 100 }]);
+      expect(result[48].real!.netWorth).to.equal(Math.round(chartData[48].netWorth / Math.pow(1.03, 4) * 100) / 100);
+    });
+
+    it('should leave the first month in nominal terms', () => {
+      const result = addRealValues(chartData, '2025-01-01', 0.03);
+
+      expect(result[0].real!.liquidity).to.equal(chartData[0].liquidity);
+      expect(result[0].real!.assets).to.equal(chartData[0].assets);
+    });
+
+    it('should deflate breakdowns when included', () => {
+      const result = addRealValues(chartData, '2025-01-01', 0.03);
+      const salary = result[24].real!.breakdown!.find((contribution) => contribution.eventId === 1)!;
+
+      expect(salary.liquidityDelta).to.equal(Math.round(1000 / Math.pow(1.03, 2) * 100) / 100);
+    });
+  });
+
+  describe('getPathPriceLevel', () => {
+    it('should compound each year\'s own inflation', () => {
+      expect(getPathPriceLevel([0.1, 0.02], 0)).to.equal(1);
+      expect(getPathPriceLevel([0.1, 0.02], 12)).to.be.closeTo(1.1, 1e-12);
+      expect(getPathPriceLevel([0.1, 0.02], 18)).to.be.closeTo(1.1 * Math.sqrt(1.02), 1e-12);
+      expect(getPathPriceLevel([0.1, 0.02], 36)).to.be.closeTo(1.1 * 1.02 * 1.02, 1e-12);
+    });
+
+    it('should match the constant price level when every year has the same rate', () => {
+      expect(getPathPriceLevel([0.03, 0.03, 0.03], 30)).to.be.closeTo(getPriceLevel(0.03, '2025-01-01', '2027-07-01'), 1e-12);
+    });
+  });
+});
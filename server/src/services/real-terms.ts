@@ -0,0 +1,69 @@
+import { ChartDataPoint, EventContribution, LiabilityBalance } from './calculator';
+import { differenceInCalendarMonths, parseISO, startOfMonth } from 'date-fns';
+
+/**
+ * Price level of a month relative to the plan start date under a constant inflation assumption
+ * @param inflationRate Annual inflation as decimal
+ * @param startDate Plan start date, whose month is worth today's money (ISO string)
+ * @param month Month of the projection (ISO string)
+ * @returns Factor nominal amounts are divided by to give today's money
+ */
+export const getPriceLevel = (inflationRate: number, startDate: string, month: string): number => {
+  const monthsSinceStart = differenceInCalendarMonths(parseISO(month), startOfMonth(parseISO(startDate)));
+  return Math.pow(1 + inflationRate, monthsSinceStart / 12);
+};
+
+/**
+ * Price level of a projection month when inflation differs each year, as on a simulated path
+ * @param annualRates Inflation of each projection year as decimal, the last entry repeats
+ * @param monthIndex Months since the plan start month
+ * @returns Factor nominal amounts are divided by to give today's money
+ */
+export const getPathPriceLevel = (annualRates: number[], monthIndex: number): number => {
+  const rateOfYear = (year: number) => annualRates.length > 0 ? annualRates[Math.min(year, annualRates.length - 1)] : 0;
+  const completedYears = Math.floor(monthIndex / 12);
+
+  let priceLevel = 1;
+  for (let year = 0; year < completedYears; year++) {
+    priceLevel *= 1 + rateOfYear(year);
+  }
+  return priceLevel * Math.pow(1 + rateOfYear(completedYears), (monthIndex % 12) / 12);
+};
+
+const deflate = (amount: number, priceLevel: number): number => {
+  return Math.round(amount / priceLevel * 100) / 100;
+};
+
+/**
+ * Add each month's values in today's money alongside the nominal values
+ * @param chartData Nominal projection
+ * @param startDate Plan start date (ISO string)
+ * @param inflationRate Annual inflation assumption as decimal
+ */
+export const addRealValues = (chartData: ChartDataPoint[], startDate: string, inflationRate: number): ChartDataPoint[] => {
+  return chartData.map((point) => {
+    const priceLevel = getPriceLevel(inflationRate, startDate, point.month);
+    const breakdown = point.breakdown?.map((contribution): EventContribution => ({
+      eventId: contribution.eventId,
+      liquidityDelta: deflate(contribution.liquidityDelta, priceLevel),
+      assetsDelta: deflate(contribution.assetsDelta, priceLevel),
+    }));
+    const liabilities = point.liabilities.map((liability): LiabilityBalance => ({
+      eventId: liability.eventId,
+      balance: deflate(liability.balance, priceLevel),
+    }));
+
+    return {
+      ...point,
+      real: {
+        liquidity: deflate(point.liquidity, priceLevel),
+        assets: deflate(point.assets, priceLevel),
+        grossAssets: deflate(point.grossAssets, priceLevel),
+        liabilities,
+        totalLiabilities: deflate(point.totalLiabilities, priceLevel),
+        netWorth: deflate(point.netWorth, priceLevel),
+        ...(breakdown && { breakdown }),
+      },
+    };
+  });
+};
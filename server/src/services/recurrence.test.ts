@@ -0,0 +1,126 @@
+/**
+ * Tests for recurrence rules
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { countOccurrencesInMonth, isValidByDay } from './recurrence';
+import { Recurrence } from '../models/events';
+
+describe('Recurrence rules', () => {
+  const countInYear = (recurrence: Recurrence, startDate: string, year: number): number => {
+    let total = 0;
+    for (let month = 0; month < 12; month++) {
+      total += countOccurrencesInMonth(recurrence, startDate, new Date(year, month, 1));
+    }
+    return total;
+  };
+
+  describe('weekly', () => {
+    it('should pay four-weekly pay 13 times a year, twice in some months', () => {
+      const recurrence: Recurrence = { frequency: 'weekly', interval: 4 };
+
+      // Fridays from 3 January 2025: 3 and 31 January, then every 28 days to 5 December
+      expect(countInYear(recurrence, '2025-01-03', 2025)).to.equal(13);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-03', new Date(2025, 0, 1))).to.equal(2);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-03', new Date(2025, 1, 1))).to.equal(1);
+    });
+
+    it('should count each listed weekday', () => {
+      const recurrence: Recurrence = { frequency: 'weekly', byDay: ['MO', 'TH'] };
+
+      // January 2025 has four Mondays and five Thursdays
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2025, 0, 1))).to.equal(9);
+    });
+
+    it('should not count weekdays before the start date', () => {
+      const recurrence: Recurrence = { frequency: 'weekly', interval: 2 };
+
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2024, 11, 1))).to.equal(0);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 0, 1))).to.equal(2);
+    });
+  });
+
+  describe('monthly', () => {
+    it('should pay every N months from the start month', () => {
+      const recurrence: Recurrence = { frequency: 'monthly', interval: 3 };
+
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 0, 1))).to.equal(1);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 1, 1))).to.equal(0);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 3, 1))).to.equal(1);
+      expect(countInYear(recurrence, '2025-01-15', 2025)).to.equal(4);
+    });
+
+    it('should move the day of the month into shorter months', () => {
+      const recurrence: Recurrence = { frequency: 'monthly' };
+
+      expect(countOccurrencesInMonth(recurrence, '2025-01-31', new Date(2025, 1, 1))).to.equal(1);
+    });
+
+    it('should pay on the Nth weekday of the month', () => {
+      const lastFriday: Recurrence = { frequency: 'monthly', byDay: ['-1FR'] };
+      const fifthMonday: Recurrence = { frequency: 'monthly', byDay: ['5MO'] };
+
+      expect(countInYear(lastFriday, '2025-01-01', 2025)).to.equal(12);
+      // Only March, June, September and December 2025 have a fifth Monday
+      expect(countInYear(fifthMonday, '2025-01-01', 2025)).to.equal(4);
+    });
+  });
+
+  describe('yearly', () => {
+    it('should pay in the listed months every N years', () => {
+      const recurrence: Recurrence = { frequency: 'yearly', interval: 2, byMonth: [6] };
+
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2025, 5, 1))).to.equal(1);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2025, 0, 1))).to.equal(0);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2026, 5, 1))).to.equal(0);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2027, 5, 1))).to.equal(1);
+    });
+
+    it('should default to the start month', () => {
+      const recurrence: Recurrence = { frequency: 'yearly' };
+
+      expect(countInYear(recurrence, '2025-09-10', 2026)).to.equal(1);
+      expect(countOccurrencesInMonth(recurrence, '2025-09-10', new Date(2026, 8, 1))).to.equal(1);
+    });
+  });
+
+  describe('count and until', () => {
+    it('should stop after count occurrences', () => {
+      const recurrence: Recurrence = { frequency: 'weekly', count: 3 };
+
+      // Wednesdays 1, 8 and 15 January 2025
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2025, 0, 1))).to.equal(3);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-01', new Date(2025, 1, 1))).to.equal(0);
+    });
+
+    it('should count a long counted rule across a whole projection', () => {
+      const recurrence: Recurrence = { frequency: 'weekly', interval: 2, count: 520 };
+
+      // 520 fortnights from 3 January 2025 run to the end of 2044
+      let total = 0;
+      for (let year = 2025; year < 2045; year++) {
+        total += countInYear(recurrence, '2025-01-03', year);
+      }
+      expect(total).to.equal(520);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-03', new Date(2045, 0, 1))).to.equal(0);
+    });
+
+    it('should stop after the until date', () => {
+      const recurrence: Recurrence = { frequency: 'monthly', until: '2025-03-10' };
+
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 1, 1))).to.equal(1);
+      expect(countOccurrencesInMonth(recurrence, '2025-01-15', new Date(2025, 2, 1))).to.equal(0);
+    });
+  });
+
+  describe('isValidByDay', () => {
+    it('should accept weekdays with optional positions', () => {
+      expect(isValidByDay('MO')).to.equal(true);
+      expect(isValidByDay('2TU')).to.equal(true);
+      expect(isValidByDay('-1FR')).to.equal(true);
+      expect(isValidByDay('6MO')).to.equal(false);
+      expect(isValidByDay('monday')).to.equal(false);
+    });
+  });
+});
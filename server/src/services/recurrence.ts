@@ -0,0 +1,179 @@
+import { Recurrence } from '../models/events';
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, differenceInCalendarMonths, getDaysInMonth, isAfter, isBefore, parseISO, startOfMonth, startOfWeek, startOfYear } from 'date-fns';
+
+// Weekday codes in Date.getDay() order
+export const RECURRENCE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Weekday with an optional position in the month, e.g. '-1FR' for the last Friday
+const BY_DAY_PATTERN = /^(-?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/;
+
+// Upper bound on periods searched for the last occurrence of a counted rule
+const MAX_COUNTED_PERIODS = 10000;
+
+// Last occurrence date of each rule per start date, as counted rules are searched from their first period
+const lastOccurrenceDates = new WeakMap<Recurrence, Map<string, Date | undefined>>();
+
+interface ByDay {
+  weekday: number; // 0 (Sunday) to 6 (Saturday)
+  position?: number; // 1-5 from the start of the month, -1 to -5 from the end
+}
+
+/**
+ * Check that a byDay entry is a weekday code with an optional position (e.g., 'MO', '2TU', '-1FR')
+ */
+export const isValidByDay = (entry: string): boolean => {
+  return BY_DAY_PATTERN.test(entry);
+};
+
+const parseByDay = (entry: string): ByDay => {
+  const [, position, weekday] = BY_DAY_PATTERN.exec(entry)!;
+  return {
+    weekday: RECURRENCE_WEEKDAYS.indexOf(weekday),
+    position: position ? parseInt(position, 10) : undefined,
+  };
+};
+
+/**
+ * Days of a month matching a byDay entry: every such weekday, or only the one at its position
+ */
+const getMonthDays = (monthStart: Date, byDay: ByDay): Date[] => {
+  const days: Date[] = [];
+  for (let day = 0; day < getDaysInMonth(monthStart); day++) {
+    const date = addDays(monthStart, day);
+    if (date.getDay() === byDay.weekday) {
+      days.push(date);
+    }
+  }
+
+  if (byDay.position === undefined) {
+    return days;
+  }
+  const day = byDay.position > 0 ? days[byDay.position - 1] : days[days.length + byDay.position];
+  return day ? [day] : [];
+};
+
+/**
+ * Candidate dates of a month for monthly and yearly rules
+ * Without byDay the start date's day of the month is used, moved to the last day in shorter months
+ */
+const getMonthOccurrences = (recurrence: Recurrence, start: Date, monthStart: Date): Date[] => {
+  if (recurrence.byDay && recurrence.byDay.length > 0) {
+    return recurrence.byDay.flatMap((entry) => getMonthDays(monthStart, parseByDay(entry)));
+  }
+  return [addDays(monthStart, Math.min(start.getDate(), getDaysInMonth(monthStart)) - 1)];
+};
+
+/**
+ * Candidate dates of one period of a rule, before the start date, byMonth and end checks
+ * @param periodIndex Number of intervals since the period containing the start date
+ */
+const getPeriodOccurrences = (recurrence: Recurrence, start: Date, periodIndex: number): Date[] => {
+  const interval = recurrence.interval ?? 1;
+
+  switch (recurrence.frequency) {
+    case 'weekly': {
+      const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), periodIndex * interval);
+      const weekdays = recurrence.byDay && recurrence.byDay.length > 0
+        ? recurrence.byDay.map((entry) => parseByDay(entry).weekday)
+        : [start.getDay()];
+      return weekdays.map((weekday) => addDays(weekStart, (weekday + 6) % 7));
+    }
+    case 'monthly':
+      return getMonthOccurrences(recurrence, start, addMonths(startOfMonth(start), periodIndex * interval));
+    case 'yearly': {
+      const yearStart = addYears(startOfYear(start), periodIndex * interval);
+      const months = recurrence.byMonth && recurrence.byMonth.length > 0 ? recurrence.byMonth : [start.getMonth() + 1];
+      return months.flatMap((month) => getMonthOccurrences(recurrence, start, addMonths(yearStart, month - 1)));
+    }
+  }
+};
+
+/**
+ * Occurrences of a period that fall on or after the start date and in the allowed months, in date order
+ */
+const getValidPeriodOccurrences = (recurrence: Recurrence, start: Date, periodIndex: number): Date[] => {
+  return getPeriodOccurrences(recurrence, start, periodIndex)
+    .filter((date) => !isBefore(date, start))
+    .filter((date) => !recurrence.byMonth || recurrence.byMonth.length === 0 || recurrence.byMonth.includes(date.getMonth() + 1))
+    .sort((a, b) => a.getTime() - b.getTime());
+};
+
+/**
+ * Last date an occurrence can fall on, from until and count
+ */
+const findLastOccurrenceDate = (recurrence: Recurrence, start: Date): Date | undefined => {
+  const until = recurrence.until ? parseISO(recurrence.until) : undefined;
+  if (recurrence.count === undefined) {
+    return until;
+  }
+
+  let remaining = recurrence.count;
+  for (let periodIndex = 0; periodIndex < MAX_COUNTED_PERIODS; periodIndex++) {
+    const occurrences = getValidPeriodOccurrences(recurrence, start, periodIndex);
+    if (occurrences.length >= remaining) {
+      const last = occurrences[remaining - 1];
+      return until && isBefore(until, last) ? until : last;
+    }
+    remaining -= occurrences.length;
+  }
+  return until;
+};
+
+/**
+ * Last occurrence date of a rule, worked out once per rule and start date
+ */
+const getLastOccurrenceDate = (recurrence: Recurrence, startDate: string): Date | undefined => {
+  const cachedDates = lastOccurrenceDates.get(recurrence) ?? new Map<string, Date | undefined>();
+  lastOccurrenceDates.set(recurrence, cachedDates);
+  if (!cachedDates.has(startDate)) {
+    cachedDates.set(startDate, findLastOccurrenceDate(recurrence, parseISO(startDate)));
+  }
+  return cachedDates.get(startDate);
+};
+
+/**
+ * Range of period indexes that can have occurrences in a month
+ */
+const getPeriodRange = (recurrence: Recurrence, start: Date, monthStart: Date): [number, number] => {
+  const interval = recurrence.interval ?? 1;
+
+  switch (recurrence.frequency) {
+    case 'weekly': {
+      const firstWeek = startOfWeek(start, { weekStartsOn: 1 });
+      const weekIndex = (date: Date) => Math.floor(differenceInCalendarDays(date, firstWeek) / 7);
+      const monthEnd = addDays(addMonths(monthStart, 1), -1);
+      return [Math.ceil(weekIndex(monthStart) / interval), Math.floor(weekIndex(monthEnd) / interval)];
+    }
+    case 'monthly': {
+      const monthsSince = differenceInCalendarMonths(monthStart, start);
+      return monthsSince % interval === 0 ? [monthsSince / interval, monthsSince / interval] : [0, -1];
+    }
+    case 'yearly': {
+      const yearsSince = monthStart.getFullYear() - start.getFullYear();
+      return yearsSince % interval === 0 ? [yearsSince / interval, yearsSince / interval] : [0, -1];
+    }
+  }
+};
+
+/**
+ * Count the occurrences of a recurrence rule in a month
+ * @param recurrence Schedule of the recurring amount
+ * @param startDate First date the schedule can occur on (ISO string)
+ * @param month Any date in the month being calculated
+ * @returns Number of occurrences falling in the month
+ */
+export const countOccurrencesInMonth = (recurrence: Recurrence, startDate: string, month: Date): number => {
+  const start = parseISO(startDate);
+  const monthStart = startOfMonth(month);
+  const lastDate = getLastOccurrenceDate(recurrence, startDate);
+  const [firstPeriod, lastPeriod] = getPeriodRange(recurrence, start, monthStart);
+
+  let occurrences = 0;
+  for (let periodIndex = Math.max(0, firstPeriod); periodIndex <= lastPeriod; periodIndex++) {
+    occurrences += getValidPeriodOccurrences(recurrence, start, periodIndex)
+      .filter((date) => !isBefore(date, monthStart) && isBefore(date, addMonths(monthStart, 1)))
+      .filter((date) => !lastDate || !isAfter(date, lastDate))
+      .length;
+  }
+  return occurrences;
+};
@@ -0,0 +1,78 @@
+import { NetPayOptions, TaxJurisdiction } from './types';
+import { ukJurisdiction } from './uk';
+
+export type { NetPayBreakdown, NetPayOptions, PensionIncomeBreakdown, TaxJurisdiction } from './types';
+
+// Registered rule sets, keyed by jurisdiction code
+const jurisdictions: Record<string, TaxJurisdiction> = {
+  [ukJurisdiction.code]: ukJurisdiction,
+};
+
+export const TAX_JURISDICTION_CODES = Object.keys(jurisdictions);
+
+/**
+ * Look up the tax rules for a jurisdiction code (e.g., 'uk')
+ */
+export const getTaxJurisdiction = (code: string): TaxJurisdiction | undefined => {
+  return jurisdictions[code];
+};
+
+/**
+ * Convert a regular monthly gross salary into monthly take-home pay
+ * The salary is annualised so that allowances and bands apply as they would across the tax year
+ * @param monthlyGross Gross pay for the month
+ * @param jurisdictionCode Tax rule set to apply
+ * @param month Month the pay is received, used to pick the tax year
+ * @param options Deductions taken before tax, such as pension salary sacrifice
+ * @returns Net pay for the month
+ */
+export const calculateNetMonthlyPay = (monthlyGross: number, jurisdictionCode: string, month: Date, options: NetPayOptions = {}): number => {
+  return calculateNetPay(monthlyGross, monthlyGross * 12, jurisdictionCode, month, options);
+};
+
+/**
+ * Convert gross pay received in a month into take-home pay, given all the gross pay from the same source in its tax year
+ * Allowances and bands apply to the annual total, and the month keeps its share of the annual net pay,
+ * so one-off and occasional payments are taxed at the rate of what is actually paid in the year
+ * @param gross Gross pay for the month
+ * @param annualGross Gross pay received across the tax year, including this month's
+ * @param jurisdictionCode Tax rule set to apply
+ * @param month Month the pay is received, used to pick the tax year
+ * @param options Deductions taken before tax, such as pension salary sacrifice
+ * @returns Net pay for the month
+ */
+export const calculateNetPay = (gross: number, annualGross: number, jurisdictionCode: string, month: Date, options: NetPayOptions = {}): number => {
+  const jurisdiction = getTaxJurisdiction(jurisdictionCode);
+  if (!jurisdiction) {
+    throw new Error(`Unknown tax jurisdiction: ${jurisdictionCode}`);
+  }
+  
+  if (annualGross <= 0) {
+    return gross;
+  }
+  
+  const breakdown = jurisdiction.calculateNetPay(annualGross, jurisdiction.taxYearFor(month), options);
+  return gross * breakdown.net / annualGross;
+};
+
+/**
+ * Convert pension drawdown taken in a month into income after tax, given all the drawdown from the same pot in its tax year
+ * @param drawdown Drawdown taken in the month
+ * @param annualDrawdown Drawdown taken across the tax year, including this month's
+ * @param jurisdictionCode Tax rule set to apply
+ * @param month Month the drawdown is taken, used to pick the tax year
+ * @returns Drawdown after tax for the month
+ */
+export const calculateNetPensionIncome = (drawdown: number, annualDrawdown: number, jurisdictionCode: string, month: Date): number => {
+  const jurisdiction = getTaxJurisdiction(jurisdictionCode);
+  if (!jurisdiction) {
+    throw new Error(`Unknown tax jurisdiction: ${jurisdictionCode}`);
+  }
+  
+  if (annualDrawdown <= 0) {
+    return drawdown;
+  }
+  
+  const breakdown = jurisdiction.calculateNetPensionIncome(annualDrawdown, jurisdiction.taxYearFor(month));
+  return drawdown * breakdown.net / annualDrawdown;
+};
@@ -0,0 +1,49 @@
+// Tax rule type definitions shared by all jurisdictions
+
+/**
+ * Annual pay after deductions, as calculated by a jurisdiction's rules
+ */
+export interface NetPayBreakdown {
+  gross: number;
+  salarySacrifice: number; // Pension contributions taken before tax
+  incomeTax: number;
+  socialSecurity: number; // National Insurance in the UK
+  net: number;
+}
+
+/**
+ * Annual pension drawdown after tax, as calculated by a jurisdiction's rules
+ */
+export interface PensionIncomeBreakdown {
+  gross: number; // Taken from the pot
+  taxFree: number; // Share of the drawdown not taxed (e.g., the UK's 25%)
+  incomeTax: number;
+  net: number;
+}
+
+export interface NetPayOptions {
+  salarySacrificeRate?: number; // Pension salary sacrifice as decimal of gross pay
+}
+
+/**
+ * A set of tax rules for one jurisdiction, with data versioned per tax year
+ */
+export interface TaxJurisdiction {
+  code: string;
+  name: string;
+  taxYears: string[]; // Tax years with published rules, oldest first
+  /**
+   * Tax year a given date falls into (e.g., '2025-26')
+   */
+  taxYearFor(date: Date): string;
+  /**
+   * Calculate annual net pay from annual gross pay
+   * Tax years without published rules use the closest available year
+   */
+  calculateNetPay(annualGross: number, taxYear: string, options?: NetPayOptions): NetPayBreakdown;
+  /**
+   * Calculate annual net income from annual pension drawdown
+   * Tax years without published rules use the closest available year
+   */
+  calculateNetPensionIncome(annualDrawdown: number, taxYear: string): PensionIncomeBreakdown;
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for UK student loan rules
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  calculateUkStudentLoanInterestRate,
+  calculateUkStudentLoanRepayment,
+  getUkStudentLoanRules,
+  UK_STUDENT_LOAN_RULES,
+} from './uk-student-loans';
+
+describe('UK Student Loan Rules', () => {
+  const rules = UK_STUDENT_LOAN_RULES['2025-26'];
+
+  describe('calculateUkStudentLoanRepayment', () => {
+    it('should take 9% of earnings above the plan threshold', () => {
+      // £40,000 a year against the £28,470 Plan 2 threshold
+      expect(calculateUkStudentLoanRepayment(40000 / 12, 'plan_2', rules)).to.be.closeTo((40000 - 28470) / 12 * 0.09, 0.01);
+    });
+
+    it('should take 6% for postgraduate loans', () => {
+      expect(calculateUkStudentLoanRepayment(3000, 'postgraduate', rules)).to.be.closeTo((3000 - 1750) * 0.06, 0.01);
+    });
+
+    it('should take nothing below the threshold', () => {
+      expect(calculateUkStudentLoanRepayment(2000, 'plan_4', rules)).to.equal(0);
+    });
+  });
+
+  describe('calculateUkStudentLoanInterestRate', () => {
+    it('should scale Plan 2 interest with income', () => {
+      expect(calculateUkStudentLoanInterestRate('plan_2', 20000, 0.032, rules)).to.be.closeTo(0.032, 1e-9);
+      expect(calculateUkStudentLoanInterestRate('plan_2', (28470 + 51245) / 2, 0.032, rules)).to.be.closeTo(0.047, 1e-9);
+      expect(calculateUkStudentLoanInterestRate('plan_2', 80000, 0.032, rules)).to.be.closeTo(0.062, 1e-9);
+    });
+
+    it('should charge RPI on Plan 1 and RPI + 3% on postgraduate loans', () => {
+      expect(calculateUkStudentLoanInterestRate('plan_1', 80000, 0.032, rules)).to.be.closeTo(0.032, 1e-9);
+      expect(calculateUkStudentLoanInterestRate('postgraduate', 10000, 0.032, rules)).to.be.closeTo(0.062, 1e-9);
+    });
+  });
+
+  it('should fall back to the closest published tax year', () => {
+    expect(getUkStudentLoanRules('2040-41')).to.equal(UK_STUDENT_LOAN_RULES['2025-26']);
+    expect(getUkStudentLoanRules('2010-11')).to.equal(UK_STUDENT_LOAN_RULES['2024-25']);
+  });
+});
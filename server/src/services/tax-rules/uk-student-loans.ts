@@ -0,0 +1,98 @@
+/**
+ * UK student loan repayment and interest rules
+ */
+
+export type UkStudentLoanPlan = 'plan_1' | 'plan_2' | 'plan_4' | 'plan_5' | 'postgraduate';
+
+export interface UkStudentLoanPlanRules {
+  threshold: number; // Annual earnings above which repayments are taken
+  repaymentRate: number; // Share of earnings above the threshold
+}
+
+export interface UkStudentLoanRules {
+  plans: Record<UkStudentLoanPlan, UkStudentLoanPlanRules>;
+  plan2UpperInterestThreshold: number; // Plan 2 interest reaches RPI + 3% at this income
+}
+
+// Published thresholds per tax year (6 April to 5 April)
+export const UK_STUDENT_LOAN_RULES: Record<string, UkStudentLoanRules> = {
+  '2024-25': {
+    plans: {
+      plan_1: { threshold: 24990, repaymentRate: 0.09 },
+      plan_2: { threshold: 27295, repaymentRate: 0.09 },
+      plan_4: { threshold: 31395, repaymentRate: 0.09 },
+      plan_5: { threshold: 25000, repaymentRate: 0.09 },
+      postgraduate: { threshold: 21000, repaymentRate: 0.06 },
+    },
+    plan2UpperInterestThreshold: 49130,
+  },
+  '2025-26': {
+    plans: {
+      plan_1: { threshold: 26065, repaymentRate: 0.09 },
+      plan_2: { threshold: 28470, repaymentRate: 0.09 },
+      plan_4: { threshold: 32745, repaymentRate: 0.09 },
+      plan_5: { threshold: 25000, repaymentRate: 0.09 },
+      postgraduate: { threshold: 21000, repaymentRate: 0.06 },
+    },
+    plan2UpperInterestThreshold: 51245,
+  },
+};
+
+// Years from the first repayment date until the remaining balance is written off
+export const UK_STUDENT_LOAN_WRITE_OFF_YEARS: Record<UkStudentLoanPlan, number> = {
+  plan_1: 25,
+  plan_2: 30,
+  plan_4: 30,
+  plan_5: 40,
+  postgraduate: 30,
+};
+
+const UK_STUDENT_LOAN_TAX_YEARS = Object.keys(UK_STUDENT_LOAN_RULES).sort();
+
+/**
+ * Get the student loan rules for a tax year, falling back to the closest published year
+ */
+export const getUkStudentLoanRules = (taxYear: string): UkStudentLoanRules => {
+  if (UK_STUDENT_LOAN_RULES[taxYear]) {
+    return UK_STUDENT_LOAN_RULES[taxYear];
+  }
+
+  const closestYear = taxYear < UK_STUDENT_LOAN_TAX_YEARS[0]
+    ? UK_STUDENT_LOAN_TAX_YEARS[0]
+    : UK_STUDENT_LOAN_TAX_YEARS[UK_STUDENT_LOAN_TAX_YEARS.length - 1];
+  return UK_STUDENT_LOAN_RULES[closestYear];
+};
+
+/**
+ * Monthly repayment taken from a month's earnings
+ * @param monthlyEarnings Gross pay for the month (after salary sacrifice)
+ */
+export const calculateUkStudentLoanRepayment = (monthlyEarnings: number, plan: UkStudentLoanPlan, rules: UkStudentLoanRules): number => {
+  const { threshold, repaymentRate } = rules.plans[plan];
+  return Math.max(0, monthlyEarnings - threshold / 12) * repaymentRate;
+};
+
+/**
+ * Annual interest rate of a plan
+ * Plan 2 scales from RPI at the repayment threshold to RPI + 3% at the upper threshold, postgraduate loans always charge RPI + 3%
+ * @param annualEarnings Gross annual earnings (after salary sacrifice)
+ * @param rpiRate Annual RPI as decimal
+ */
+export const calculateUkStudentLoanInterestRate = (
+  plan: UkStudentLoanPlan,
+  annualEarnings: number,
+  rpiRate: number,
+  rules: UkStudentLoanRules
+): number => {
+  switch (plan) {
+    case 'plan_2':
+      const lower = rules.plans.plan_2.threshold;
+      const upper = rules.plan2UpperInterestThreshold;
+      const share = Math.min(1, Math.max(0, (annualEarnings - lower) / (upper - lower)));
+      return rpiRate + 0.03 * share;
+    case 'postgraduate':
+      return rpiRate + 0.03;
+    default:
+      return rpiRate;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Tests for UK tax rules
+ */
+
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import {
+  ukJurisdiction,
+  getUkTaxRules,
+  calculateUkIncomeTax,
+  calculateUkNationalInsurance,
+  calculateUkPersonalAllowance,
+  UK_TAX_RULES,
+} from './uk';
+import { calculateNetMonthlyPay, calculateNetPay, getTaxJurisdiction } from './index';
+
+describe('UK Tax Rules', () => {
+  const rules = UK_TAX_RULES['2025-26'];
+
+  describe('calculateUkIncomeTax', () => {
+    it('should tax basic rate income above the personal allowance', () => {
+      expect(calculateUkIncomeTax(30000, rules)).to.be.closeTo(3486, 0.01);
+    });
+
+    it('should tax higher rate income at 40%', () => {
+      expect(calculateUkIncomeTax(60000, rules)).to.be.closeTo(11432, 0.01);
+    });
+
+    it('should not tax income within the personal allowance', () => {
+      expect(calculateUkIncomeTax(12000, rules)).to.equal(0);
+    });
+
+    it('should taper the personal allowance above £100,000', () => {
+      expect(calculateUkPersonalAllowance(110000, rules)).to.equal(7570);
+      expect(calculateUkIncomeTax(110000, rules)).to.be.closeTo(33432, 0.01);
+    });
+
+    it('should apply the additional rate once the allowance is fully withdrawn', () => {
+      expect(calculateUkPersonalAllowance(130000, rules)).to.equal(0);
+      expect(calculateUkIncomeTax(130000, rules)).to.be.closeTo(44703, 0.01);
+    });
+  });
+
+  describe('calculateUkNationalInsurance', () => {
+    it('should charge the main rate between the primary threshold and upper earnings limit', () => {
+      expect(calculateUkNationalInsurance(30000, rules)).to.be.closeTo(1394.4, 0.01);
+    });
+
+    it('should charge the upper rate above the upper earnings limit', () => {
+      expect(calculateUkNationalInsurance(60000, rules)).to.be.closeTo(3210.6, 0.01);
+    });
+  });
+
+  describe('ukJurisdiction', () => {
+    it('should start the tax year in April', () => {
+      expect(ukJurisdiction.taxYearFor(new Date(2025, 2, 1))).to.equal('2024-25');
+      expect(ukJurisdiction.taxYearFor(new Date(2025, 3, 1))).to.equal('2025-26');
+      expect(ukJurisdiction.taxYearFor(new Date(2099, 11, 1))).to.equal('2099-00');
+    });
+
+    it('should fall back to the closest published tax year', () => {
+      expect(getUkTaxRules('2040-41')).to.equal(UK_TAX_RULES['2025-26']);
+      expect(getUkTaxRules('2010-11')).to.equal(UK_TAX_RULES['2024-25']);
+    });
+
+    it('should deduct salary sacrifice before tax and National Insurance', () => {
+      const breakdown = ukJurisdiction.calculateNetPay(60000, '2025-26', { salarySacrificeRate: 0.05 });
+
+      expect(breakdown.salarySacrifice).to.equal(3000);
+      expect(breakdown.incomeTax).to.be.closeTo(10232, 0.01);
+      expect(breakdown.socialSecurity).to.be.closeTo(3150.6, 0.01);
+      expect(breakdown.net).to.be.closeTo(43617.4, 0.01);
+    });
+
+    it('should tax pension drawdown above the 25% tax-free share without National Insurance', () => {
+      const breakdown = ukJurisdiction.calculateNetPensionIncome(48000, '2025-26');
+
+      expect(breakdown.taxFree).to.equal(12000);
+      expect(breakdown.incomeTax).to.be.closeTo((36000 - 12570) * 0.2, 0.01);
+      expect(breakdown.net).to.be.closeTo(48000 - 4686, 0.01);
+    });
+  });
+
+  describe('calculateNetMonthlyPay', () => {
+    it('should annualise monthly gross pay', () => {
+      const net = calculateNetMonthlyPay(2500, 'uk', new Date(2025, 5, 1));
+
+      expect(net).to.be.closeTo(25119.6 / 12, 0.01);
+    });
+
+    it('should tax occasional pay on the gross received in the year', () => {
+      // A £10,000 bonus alone stays within the personal allowance and primary threshold
+      expect(calculateNetPay(10000, 10000, 'uk', new Date(2025, 5, 1))).to.equal(10000);
+      expect(calculateNetPay(2500, 30000, 'uk', new Date(2025, 5, 1))).to.be.closeTo(25119.6 / 12, 0.01);
+    });
+
+    it('should reject unknown jurisdictions', () => {
+      expect(getTaxJurisdiction('atlantis')).to.equal(undefined);
+      expect(() => calculateNetMonthlyPay(2500, 'atlantis', new Date(2025, 5, 1))).to.throw('Unknown tax jurisdiction');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { NetPayBreakdown, NetPayOptions, PensionIncomeBreakdown, TaxJurisdiction } from './types';
+
+/**
+ * UK (England, Wales and Northern Ireland) income tax and employee National Insurance rules
+ */
+export interface UkTaxRules {
+  personalAllowance: number;
+  personalAllowanceTaperThreshold: number; // Allowance is reduced by £1 for every £2 of income above this
+  incomeTaxBands: {
+    upTo: number | null; // Upper limit of taxable income (after allowance), null for the top band
+    rate: number;
+  }[];
+  nationalInsurance: {
+    primaryThreshold: number;
+    upperEarningsLimit: number;
+    mainRate: number; // Between the primary threshold and the upper earnings limit
+    upperRate: number; // Above the upper earnings limit
+  };
+  pensionTaxFreeShare: number; // Share of each pension drawdown paid tax-free, the rest is taxed as income
+}
+
+// Published rules per tax year (6 April to 5 April)
+export const UK_TAX_RULES: Record<string, UkTaxRules> = {
+  '2024-25': {
+    personalAllowance: 12570,
+    personalAllowanceTaperThreshold: 100000,
+    incomeTaxBands: [
+      { upTo: 37700, rate: 0.2 },
+      { upTo: 125140, rate: 0.4 },
+      { upTo: null, rate: 0.45 },
+    ],
+    nationalInsurance: {
+      primaryThreshold: 12570,
+      upperEarningsLimit: 50270,
+      mainRate: 0.08,
+      upperRate: 0.02,
+    },
+    pensionTaxFreeShare: 0.25,
+  },
+  '2025-26': {
+    personalAllowance: 12570,
+    personalAllowanceTaperThreshold: 100000,
+    incomeTaxBands: [
+      { upTo: 37700, rate: 0.2 },
+      { upTo: 125140, rate: 0.4 },
+      { upTo: null, rate: 0.45 },
+    ],
+    nationalInsurance: {
+      primaryThreshold: 12570,
+      upperEarningsLimit: 50270,
+      mainRate: 0.08,
+      upperRate: 0.02,
+    },
+    pensionTaxFreeShare: 0.25,
+  },
+};
+
+const UK_TAX_YEARS = Object.keys(UK_TAX_RULES).sort();
+
+/**
+ * Get the rules for a tax year, falling back to the closest published year
+ */
+export const getUkTaxRules = (taxYear: string): UkTaxRules => {
+  if (UK_TAX_RULES[taxYear]) {
+    return UK_TAX_RULES[taxYear];
+  }
+  
+  const closestYear = taxYear < UK_TAX_YEARS[0] ? UK_TAX_YEARS[0] : UK_TAX_YEARS[UK_TAX_YEARS.length - 1];
+  return UK_TAX_RULES[closestYear];
+};
+
+/**
+ * Personal allowance after the taper for high earners
+ */
+export const calculateUkPersonalAllowance = (adjustedIncome: number, rules: UkTaxRules): number => {
+  const excess = Math.max(0, adjustedIncome - rules.personalAllowanceTaperThreshold);
+  return Math.max(0, rules.personalAllowance - excess / 2);
+};
+
+/**
+ * Annual income tax on gross income (after salary sacrifice)
+ */
+export const calculateUkIncomeTax = (income: number, rules: UkTaxRules): number => {
+  const taxableIncome = Math.max(0, income - calculateUkPersonalAllowance(income, rules));
+  
+  let tax = 0;
+  let lowerLimit = 0;
+  for (const band of rules.incomeTaxBands) {
+    const upperLimit = band.upTo ?? Infinity;
+    if (taxableIncome <= lowerLimit) {
+      break;
+    }
+    tax += (Math.min(taxableIncome, upperLimit) - lowerLimit) * band.rate;
+    lowerLimit = upperLimit;
+  }
+  
+  return tax;
+};
+
+/**
+ * Annual employee Class 1 National Insurance on earnings (after salary sacrifice)
+ */
+export const calculateUkNationalInsurance = (earnings: number, rules: UkTaxRules): number => {
+  const { primaryThreshold, upperEarningsLimit, mainRate, upperRate } = rules.nationalInsurance;
+  
+  const mainBand = Math.max(0, Math.min(earnings, upperEarningsLimit) - primaryThreshold);
+  const upperBand = Math.max(0, earnings - upperEarningsLimit);
+  
+  return mainBand * mainRate + upperBand * upperRate;
+};
+
+export const ukJurisdiction: TaxJurisdiction = {
+  code: 'uk',
+  name: 'United Kingdom (England, Wales and Northern Ireland)',
+  taxYears: UK_TAX_YEARS,
+  
+  taxYearFor(date: Date): string {
+    // Monthly pay from April onwards falls into the tax year starting on 6 April
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  },
+  
+  calculateNetPay(annualGross: number, taxYear: string, options: NetPayOptions = {}): NetPayBreakdown {
+    const rules = getUkTaxRules(taxYear);
+    const salarySacrifice = annualGross * (options.salarySacrificeRate ?? 0);
+    const taxablePay = annualGross - salarySacrifice;
+    
+    const incomeTax = calculateUkIncomeTax(taxablePay, rules);
+    const socialSecurity = calculateUkNationalInsurance(taxablePay, rules);
+    
+    return {
+      gross: annualGross,
+      salarySacrifice,
+      incomeTax,
+      socialSecurity,
+      net: taxablePay - incomeTax - socialSecurity,
+    };
+  },
+  
+  calculateNetPensionIncome(annualDrawdown: number, taxYear: string): PensionIncomeBreakdown {
+    const rules = getUkTaxRules(taxYear);
+    const taxFree = annualDrawdown * rules.pensionTaxFreeShare;
+    
+    // Pension income is taxed like pay but does not pay National Insurance
+    const incomeTax = calculateUkIncomeTax(annualDrawdown - taxFree, rules);
+    
+    return {
+      gross: annualDrawdown,
+      taxFree,
+      incomeTax,
+      net: annualDrawdown - incomeTax,
+    };
+  },
+};